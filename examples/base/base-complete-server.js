@@ -37,6 +37,7 @@ const baseProvider = new BasePaymentProvider({
   conversionRate: 1, // 1:1 by default
   
   // Optional: ERC20 token address for token payments
+  // (conversionRate is then native units per whole token, scaled by the token's decimals)
   // erc20Token: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913', // USDC on Base example
   
   // Payment timeout (5 minutes)
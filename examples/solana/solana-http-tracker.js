@@ -72,10 +72,8 @@ const ws402 = new WS402(
     userIdExtractor: (req) => {
       try {
         const url = new URL(req.url, `http://${req.headers.host}`);
-        const userId = url.searchParams.get('userId') || 'anonymous';
-        const resourceId = url.searchParams.get('resourceId');
-        if (resourceId) req._resourceId = resourceId;
-        return userId;
+        // The resource is read from ?resourceId= by the default resourceIdExtractor
+        return url.searchParams.get('userId') || 'anonymous';
       } catch {
         return 'anonymous';
       }
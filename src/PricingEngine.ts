@@ -0,0 +1,211 @@
+// src/PricingEngine.ts
+import {
+  PriceSegment,
+  PricingRules,
+  PricingRulesSummary,
+  PricingWindow,
+} from './types';
+
+/** Time windows are set in whole minutes, so window multipliers can only change on minute boundaries */
+const MINUTE = 60;
+
+/**
+ * Pricing rules engine
+ *
+ * Prices session time second by second: the free preview, the tier for the
+ * elapsed time and the time window for the wall-clock time each set the
+ * effective price per second. Volume discounts come from each user's spend,
+ * recorded in memory when their sessions end.
+ */
+export class PricingEngine {
+  private rules: Required<PricingRules>;
+  private spend: Map<string, { amount: number; timestamp: number }[]>;
+  private dateFormat: Intl.DateTimeFormat;
+
+  constructor(rules: PricingRules = {}) {
+    for (const window of rules.timeWindows || []) {
+      this.parseTime(window.start);
+      this.parseTime(window.end);
+    }
+    if ([...(rules.tiers || []), ...(rules.timeWindows || [])].some(rule => !(rule.multiplier >= 0))) {
+      throw new Error('Pricing multipliers must be non-negative numbers');
+    }
+    if ((rules.volumeDiscounts || []).some(({ discount }) => !(discount >= 0 && discount <= 1))) {
+      throw new Error('Volume discounts must be between 0 and 1');
+    }
+
+    this.rules = {
+      freePreviewSeconds: rules.freePreviewSeconds || 0,
+      tiers: [...(rules.tiers || [])].sort((a, b) => a.afterSeconds - b.afterSeconds),
+      timeWindows: rules.timeWindows || [],
+      volumeDiscounts: [...(rules.volumeDiscounts || [])].sort((a, b) => b.minSpend - a.minSpend),
+      volumePeriod: rules.volumePeriod || 2592000, // 30 days
+      timezone: rules.timezone || 'UTC',
+    };
+    this.spend = new Map();
+
+    // Throws on an unknown time zone
+    this.dateFormat = new Intl.DateTimeFormat('en-US', {
+      timeZone: this.rules.timezone,
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    });
+  }
+
+  /**
+   * Price elapsed seconds [fromSecond, toSecond) at a base price per second,
+   * with fromSecond falling at wall-clock time startAt (ms timestamp)
+   * Returns one segment per span of constant effective price.
+   */
+  price(basePrice: number, fromSecond: number, toSecond: number, startAt: number): PriceSegment[] {
+    const segments: PriceSegment[] = [];
+
+    for (let second = fromSecond; second < toSecond;) {
+      const at = startAt + (second - fromSecond) * 1000;
+      const pricePerSecond = basePrice * this.multiplierAt(second, at);
+      const end = Math.min(this.nextChange(second, at), toSecond);
+
+      const last = segments[segments.length - 1];
+      if (last && last.pricePerSecond === pricePerSecond) {
+        last.toSecond = end;
+        last.amount = (end - last.fromSecond) * pricePerSecond;
+      } else {
+        segments.push({ fromSecond: second, toSecond: end, pricePerSecond, amount: (end - second) * pricePerSecond });
+      }
+
+      second = end;
+    }
+
+    return segments;
+  }
+
+  /**
+   * Effective price per second at an elapsed second and wall-clock time
+   */
+  priceAt(basePrice: number, elapsedSecond: number, at: number = Date.now()): number {
+    return basePrice * this.multiplierAt(elapsedSecond, at);
+  }
+
+  /**
+   * Volume discount a user gets on a new session, from their spend over volumePeriod
+   */
+  volumeDiscount(userId: string): number {
+    const spent = this.recentSpend(userId);
+    const tier = this.rules.volumeDiscounts.find(({ minSpend }) => spent >= minSpend);
+    return tier?.discount || 0;
+  }
+
+  /**
+   * Record a user's spend on a finished session
+   */
+  recordSpend(userId: string, amount: number): void {
+    if (amount <= 0 || this.rules.volumeDiscounts.length === 0) return;
+
+    const cutoff = Date.now() - this.rules.volumePeriod * 1000;
+    const entries = (this.spend.get(userId) || []).filter(entry => entry.timestamp >= cutoff);
+    entries.push({ amount, timestamp: Date.now() });
+    this.spend.set(userId, entries);
+  }
+
+  /**
+   * A user's spend over volumePeriod
+   */
+  recentSpend(userId: string): number {
+    const cutoff = Date.now() - this.rules.volumePeriod * 1000;
+    return (this.spend.get(userId) || [])
+      .filter(entry => entry.timestamp >= cutoff)
+      .reduce((sum, entry) => sum + entry.amount, 0);
+  }
+
+  /**
+   * Rules and estimated time cost for a session of the given duration starting now
+   */
+  describe(basePrice: number, estimatedDuration: number): PricingRulesSummary {
+    return {
+      freePreviewSeconds: this.rules.freePreviewSeconds,
+      tiers: this.rules.tiers,
+      timeWindows: this.rules.timeWindows,
+      volumeDiscounts: this.rules.volumeDiscounts,
+      timezone: this.rules.timezone,
+      segments: this.price(basePrice, 0, estimatedDuration, Date.now()),
+    };
+  }
+
+  /**
+   * Combined multiplier of the preview, tier and time window
+   */
+  private multiplierAt(elapsedSecond: number, at: number): number {
+    if (elapsedSecond < this.rules.freePreviewSeconds) return 0;
+
+    return this.tierAt(elapsedSecond) * (this.windowAt(at)?.multiplier ?? 1);
+  }
+
+  private tierAt(elapsedSecond: number): number {
+    let multiplier = 1;
+    for (const tier of this.rules.tiers) {
+      if (elapsedSecond < tier.afterSeconds) break;
+      multiplier = tier.multiplier;
+    }
+    return multiplier;
+  }
+
+  private windowAt(at: number): PricingWindow | undefined {
+    if (this.rules.timeWindows.length === 0) return undefined;
+
+    const { day, minutes } = this.localTime(at);
+    return this.rules.timeWindows.find(window => {
+      const start = this.parseTime(window.start);
+      const end = this.parseTime(window.end);
+
+      if (start <= end) {
+        return this.onDay(window, day) && minutes >= start && minutes < end;
+      }
+      // Past midnight: the early-morning part belongs to the previous day's window
+      return (this.onDay(window, day) && minutes >= start) ||
+        (this.onDay(window, (day + 6) % 7) && minutes < end);
+    });
+  }
+
+  private onDay(window: PricingWindow, day: number): boolean {
+    return !window.days || window.days.includes(day);
+  }
+
+  /**
+   * First elapsed second after `second` at which the multiplier may change
+   */
+  private nextChange(second: number, at: number): number {
+    const boundaries = [this.rules.freePreviewSeconds, ...this.rules.tiers.map(tier => tier.afterSeconds)]
+      .filter(boundary => boundary > second);
+
+    if (this.rules.timeWindows.length > 0) {
+      // Seconds until the next wall-clock minute
+      boundaries.push(second + MINUTE - (Math.floor(at / 1000) % MINUTE));
+    }
+
+    return boundaries.length > 0 ? Math.min(...boundaries) : Infinity;
+  }
+
+  /**
+   * Day of week and minutes past midnight in the configured time zone
+   */
+  private localTime(at: number): { day: number; minutes: number } {
+    const parts = Object.fromEntries(
+      this.dateFormat.formatToParts(new Date(at)).map(part => [part.type, part.value])
+    );
+    const day = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(parts.weekday);
+    return { day, minutes: Number(parts.hour) * 60 + Number(parts.minute) };
+  }
+
+  /**
+   * Minutes past midnight for 'HH:MM'
+   */
+  private parseTime(time: string): number {
+    const match = /^(\d{1,2}):(\d{2})$/.exec(time);
+    if (!match || Number(match[1]) > 24 || Number(match[2]) > 59) {
+      throw new Error(`Invalid pricing window time: ${time}`);
+    }
+    return Number(match[1]) * 60 + Number(match[2]);
+  }
+}
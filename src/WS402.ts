@@ -1,6 +1,7 @@
 // src/WS402.ts
 import WebSocket from 'ws';
 import { EventEmitter } from 'events';
+import { randomBytes } from 'crypto';
 import {
   WS402Config,
   WS402Session,
@@ -8,7 +9,32 @@ import {
   UsageUpdate,
   WS402Schema,
   RefundDetails,
+  SessionPayment,
+  UsageBreakdown,
+  LowBalanceWarning,
+  SchemaOptions,
+  PricingModel,
+  PaymentVerification,
+  ChannelVerification,
+  RefundJob,
+  RefundRetryPolicy,
+  ResourceDefinition,
+  ResourceQuote,
+  SignedQuote,
+  AppliedPromo,
+  PromoCode,
 } from './types';
+import { MemorySessionStore } from './stores/MemorySessionStore';
+import { MemoryProofRegistry } from './stores/MemoryProofRegistry';
+import { MemoryRefundStore } from './stores/MemoryRefundStore';
+import { PricingEngine } from './PricingEngine';
+import { ManualRefundRequiredError } from './errors';
+
+/** How long a schema's quote is kept for the payment made against it (ms) */
+const QUOTE_TTL = 3600000; // 1 hour
+
+/** Prices and duration limit a session is billed under */
+type ResourcePrices = Pick<ResourceQuote, 'pricePerSecond' | 'pricePerByte' | 'pricePerMessage' | 'maxSessionDuration'>;
 
 /**
  * WS402 - WebSocket implementation of X402 protocol
@@ -16,26 +42,148 @@ import {
  */
 export class WS402 extends EventEmitter {
   private sessions: Map<WebSocket, WS402Session>;
+  private suspendedSessions: Map<string, {
+    session: WS402Session;
+    timer: NodeJS.Timeout;
+  }>;
   private config: Required<WS402Config>;
-  private paymentProvider: PaymentProvider;
+  private paymentProviders: Map<string, PaymentProvider>;
+  private resources: Map<string, ResourceDefinition>;
+  private quotes: Map<string, ResourceQuote>;
+  private refundRetry: Required<RefundRetryPolicy>;
+  private refundsInFlight: Set<string>;
+  private pendingConfirmations: WeakMap<SessionPayment, Promise<PaymentVerification>>;
+  private protocolSends: WeakMap<WebSocket, (...args: any[]) => void>;
+  private pricingEngine: PricingEngine | null;
+  private refundTimer: NodeJS.Timeout;
 
-  constructor(config: WS402Config, paymentProvider: PaymentProvider) {
+  /**
+   * @param paymentProvider - A single provider, or several keyed by name to let clients choose
+   */
+  constructor(
+    config: WS402Config,
+    paymentProvider: PaymentProvider | Record<string, PaymentProvider>
+  ) {
     super();
     
     this.sessions = new Map();
-    this.paymentProvider = paymentProvider;
+    this.suspendedSessions = new Map();
+    this.paymentProviders = new Map();
+    this.resources = new Map();
+    this.quotes = new Map();
+    this.refundsInFlight = new Set();
+    this.pendingConfirmations = new WeakMap();
+    this.protocolSends = new WeakMap();
+
+    if (this.isPaymentProvider(paymentProvider)) {
+      this.paymentProviders.set('default', paymentProvider);
+    } else {
+      for (const [name, provider] of Object.entries(paymentProvider)) {
+        this.registerProvider(name, provider);
+      }
+    }
     
+    this.refundRetry = {
+      maxAttempts: config.refundRetry?.maxAttempts || 8,
+      baseDelay: config.refundRetry?.baseDelay || 5000,
+      maxDelay: config.refundRetry?.maxDelay || 3600000, // 1 hour
+      pollInterval: config.refundRetry?.pollInterval || 5000,
+    };
+
     // Set defaults
     this.config = {
       updateInterval: config.updateInterval || 3000,
       pricePerSecond: config.pricePerSecond || 1,
+      pricingModel: config.pricingModel || 'per-second',
+      pricePerByte: config.pricePerByte || 0,
+      pricePerMessage: config.pricePerMessage || 0,
+      meters: config.meters || {},
       currency: config.currency || 'wei',
       maxSessionDuration: config.maxSessionDuration || 3600,
+      resources: config.resources || [],
+      pricingRules: config.pricingRules || {},
+      promoCodeStore: config.promoCodeStore || null,
+      quoteSigner: config.quoteSigner || null,
+      quoteTtl: config.quoteTtl || 600, // 10 minutes
+      lowBalanceThreshold: config.lowBalanceThreshold || {},
+      gracePeriod: config.gracePeriod || 0,
+      sessionStore: config.sessionStore || new MemorySessionStore(),
+      proofRegistry: config.proofRegistry || new MemoryProofRegistry(),
+      refundStore: config.refundStore || new MemoryRefundStore(),
+      refundRetry: this.refundRetry,
+      resumeWindow: config.resumeWindow || 0,
+      channelProvider: config.channelProvider || null,
+      voucherTimeout: config.voucherTimeout || 10,
       userIdExtractor: config.userIdExtractor || this.defaultUserIdExtractor,
+      resourceIdExtractor: config.resourceIdExtractor || this.defaultResourceIdExtractor,
       onPaymentVerified: config.onPaymentVerified || (() => {}),
+      onTopUp: config.onTopUp || (() => {}),
       onRefundIssued: config.onRefundIssued || (() => {}),
       onSessionEnd: config.onSessionEnd || (() => {}),
     };
+
+    if (this.config.pricingModel === 'per-byte' && !this.config.pricePerByte) {
+      throw new Error('pricePerByte is required for the per-byte pricing model');
+    }
+    if (this.config.pricingModel === 'per-message' && !this.config.pricePerMessage) {
+      throw new Error('pricePerMessage is required for the per-message pricing model');
+    }
+
+    this.config.resources.forEach(resource => this.registerResource(resource));
+    this.pricingEngine = config.pricingRules ? new PricingEngine(config.pricingRules) : null;
+
+    // Retry failed refunds, including those left pending by a previous process
+    this.refundTimer = setInterval(() => {
+      this.retryDueRefunds().catch(error => this.emit('error', error));
+    }, this.refundRetry.pollInterval);
+    this.refundTimer.unref();
+  }
+
+  /**
+   * Register an additional payment provider clients can pay with
+   */
+  registerProvider(name: string, provider: PaymentProvider): void {
+    if (!name) {
+      throw new Error('Payment provider name is required');
+    }
+    if (this.paymentProviders.has(name)) {
+      throw new Error(`Payment provider already registered: ${name}`);
+    }
+
+    this.paymentProviders.set(name, provider);
+  }
+
+  /**
+   * Add or replace a resource in the catalog
+   */
+  registerResource(resource: ResourceDefinition): void {
+    if (!resource.resourceId) {
+      throw new Error('Resource ID is required');
+    }
+
+    for (const key of ['pricePerSecond', 'pricePerByte', 'pricePerMessage'] as const) {
+      const price = resource[key];
+      if (price !== undefined && (!Number.isFinite(price) || price < 0)) {
+        throw new Error(`${key} must be a non-negative number`);
+      }
+    }
+
+    this.resources.set(resource.resourceId, { ...resource });
+  }
+
+  /**
+   * Get a resource from the catalog
+   */
+  getResource(resourceId: string): ResourceDefinition | undefined {
+    const resource = this.resources.get(resourceId);
+    return resource ? { ...resource } : undefined;
+  }
+
+  /**
+   * List the resources in the catalog
+   */
+  listResources(): ResourceDefinition[] {
+    return Array.from(this.resources.values()).map(resource => ({ ...resource }));
   }
 
   /**
@@ -66,24 +214,358 @@ export class WS402 extends EventEmitter {
   /**
    * Generate WS402 schema for initial HTTP response
    * @param pricePerSecond - Optional custom price per second, uses config default if not provided
+   * @param options - Optional byte/message estimates for usage-based pricing models
    */
-  generateSchema(resourceId: string, estimatedDuration: number, pricePerSecond?: number): WS402Schema {
-    const price = pricePerSecond ?? this.config.pricePerSecond;
-    const totalPrice = price * estimatedDuration;
-    
+  generateSchema(
+    resourceId: string,
+    estimatedDuration: number,
+    pricePerSecond?: number,
+    options: SchemaOptions = {}
+  ): WS402Schema {
+    if (options.promoCode) {
+      throw new Error('Promo codes require requestSchema()');
+    }
+
+    const pricing = this.schemaPricing(resourceId, estimatedDuration, pricePerSecond, options);
+    const paymentDetails = this.generatePaymentDetails(pricing.totalPrice);
+
+    const quote = this.storeQuote(resourceId, pricing, paymentDetails);
+    return this.buildSchema(resourceId, pricing, paymentDetails, quote);
+  }
+
+  /**
+   * Generate WS402 schema, letting providers create payment details asynchronously
+   * (required for providers such as Lightning that create invoices on a remote node)
+   */
+  async requestSchema(
+    resourceId: string,
+    estimatedDuration: number,
+    pricePerSecond?: number,
+    options: SchemaOptions = {}
+  ): Promise<WS402Schema> {
+    const pricing = this.schemaPricing(resourceId, estimatedDuration, pricePerSecond, options);
+    if (options.promoCode) {
+      await this.applyPromo(resourceId, pricing, options.promoCode);
+    }
+
+    // Providers cannot bill a zero amount, so a fully discounted schema gets a reference to send instead
+    const paymentDetails = pricing.promo?.applied && pricing.totalPrice <= 0
+      ? this.promoPaymentDetails()
+      : await this.requestPaymentDetails(pricing.totalPrice, resourceId, pricing.estimatedDuration);
+
+    const quote = this.storeQuote(resourceId, pricing, paymentDetails);
+    return this.buildSchema(resourceId, pricing, paymentDetails, quote);
+  }
+
+  /**
+   * Discount schema pricing with a promo code, or record why the code was not applied
+   * Uses are only counted when a session is paid against the schema.
+   */
+  private async applyPromo(resourceId: string, pricing: WS402Schema['pricing'], code: string): Promise<void> {
+    const listPrice = pricing.totalPrice;
+    const promo = this.config.promoCodeStore ? await this.config.promoCodeStore.get(code) : null;
+    const reason = this.config.promoCodeStore
+      ? this.promoRejection(promo, resourceId)
+      : 'Promo codes are not enabled';
+
+    if (reason || !promo) {
+      pricing.promo = { code, applied: false, reason: reason || 'Unknown promo code', listPrice, discount: 0 };
+      return;
+    }
+
+    const freeTime = this.billsTime(pricing.model) ? (promo.freeSeconds || 0) * pricing.pricePerSecond : 0;
+    const discount = Math.min(
+      listPrice,
+      freeTime + listPrice * (promo.percentOff || 0) / 100 + (promo.credit || 0)
+    );
+
+    pricing.totalPrice = listPrice - discount;
+    pricing.promo = { code, applied: true, listPrice, discount };
+  }
+
+  /**
+   * Payment details for a schema a promo code covers in full: the client
+   * sends the reference as its payment proof and no provider is charged
+   */
+  private promoPaymentDetails(): { type: 'promo'; reference: string; amount: number; instructions: string } {
+    return {
+      type: 'promo',
+      reference: `promo_${randomBytes(16).toString('hex')}`,
+      amount: 0,
+      instructions: 'Covered by promo code - send this reference as the payment proof',
+    };
+  }
+
+  /**
+   * Why a promo code cannot be used on a resource (null if it can)
+   */
+  private promoRejection(promo: PromoCode | null, resourceId: string): string | null {
+    if (!promo) return 'Unknown promo code';
+    if (promo.expiresAt !== undefined && Date.now() > promo.expiresAt) return 'Promo code has expired';
+    if (promo.maxUses !== undefined && (promo.uses || 0) >= promo.maxUses) return 'Promo code has reached its usage limit';
+    if (promo.resourceIds && !promo.resourceIds.includes(resourceId)) return 'Promo code does not apply to this resource';
+    return null;
+  }
+
+  /**
+   * Estimated pricing for a schema, at the resource's catalog prices
+   * The estimated duration is kept within the resource's duration limits.
+   */
+  private schemaPricing(
+    resourceId: string,
+    estimatedDuration: number,
+    pricePerSecond: number | undefined,
+    options: SchemaOptions
+  ): WS402Schema['pricing'] {
+    const resource = this.resources.get(resourceId);
+    const prices = this.resourcePricing(resourceId, pricePerSecond);
+    estimatedDuration = Math.min(
+      Math.max(estimatedDuration, resource?.minDuration || 0),
+      prices.maxSessionDuration
+    );
+
+    const estimate = this.calculateBreakdown(this.config.pricingModel, {
+      elapsedSeconds: estimatedDuration,
+      bytesTransferred: options.estimatedBytes || 0,
+      messageCount: options.estimatedMessages || 0,
+      pricePerSecond: prices.pricePerSecond,
+      pricePerByte: prices.pricePerByte,
+      pricePerMessage: prices.pricePerMessage,
+      meterUsage: options.estimatedMeters || {},
+      meterPrices: this.config.meters,
+    });
+
+    // Time is estimated under the pricing rules for a session starting now
+    const rules = this.pricingEngine && this.billsTime(this.config.pricingModel)
+      ? this.pricingEngine.describe(prices.pricePerSecond, estimatedDuration)
+      : undefined;
+    if (rules) {
+      estimate.time = rules.segments.reduce((sum, segment) => sum + segment.amount, 0);
+    }
+
+    return {
+      model: this.config.pricingModel,
+      pricePerSecond: prices.pricePerSecond,
+      pricePerByte: prices.pricePerByte,
+      pricePerMessage: prices.pricePerMessage,
+      meters: this.config.meters,
+      currency: this.config.currency,
+      estimatedDuration,
+      estimatedBytes: options.estimatedBytes,
+      estimatedMessages: options.estimatedMessages,
+      estimatedMeters: options.estimatedMeters,
+      totalPrice: this.totalOf(estimate),
+      rules,
+    };
+  }
+
+  /**
+   * Assemble a schema from its pricing and payment details
+   */
+  private buildSchema(
+    resourceId: string,
+    pricing: WS402Schema['pricing'],
+    paymentDetails: any,
+    quote: ResourceQuote
+  ): WS402Schema {
+    const resource = this.resources.get(resourceId);
+
     return {
       protocol: 'ws402',
       version: '0.1.2',
       resourceId,
       websocketEndpoint: `wss://your-server.com/ws402/${resourceId}`,
-      pricing: {
-        pricePerSecond: price,
-        currency: this.config.currency,
-        estimatedDuration,
-        totalPrice,
-      },
-      paymentDetails: this.paymentProvider.generatePaymentDetails(totalPrice),
-      maxSessionDuration: this.config.maxSessionDuration,
+      pricing,
+      paymentDetails,
+      maxSessionDuration: this.resourcePricing(resourceId).maxSessionDuration,
+      resourceInfo: resource ? {
+        name: resource.name,
+        type: resource.type,
+        estimatedTime: pricing.estimatedDuration,
+        metadata: resource.metadata,
+      } : undefined,
+      quote: this.signQuote(quote, paymentDetails),
+    };
+  }
+
+  /**
+   * Prices and duration limit for a resource: its catalog entry, falling back to the config
+   */
+  private resourcePricing(resourceId?: string, pricePerSecond?: number): ResourcePrices {
+    const resource = resourceId ? this.resources.get(resourceId) : undefined;
+
+    return {
+      pricePerSecond: pricePerSecond ?? resource?.pricePerSecond ?? this.config.pricePerSecond,
+      pricePerByte: resource?.pricePerByte ?? this.config.pricePerByte,
+      pricePerMessage: resource?.pricePerMessage ?? this.config.pricePerMessage,
+      maxSessionDuration: resource?.maxSessionDuration ?? this.config.maxSessionDuration,
+    };
+  }
+
+  /**
+   * Remember a schema's pricing under its payment references, so the session
+   * paid against it is billed at exactly the quoted prices
+   */
+  private storeQuote(resourceId: string, pricing: WS402Schema['pricing'], paymentDetails: any): ResourceQuote {
+    const now = Date.now();
+
+    // Quotes are stored in creation order - drop the expired ones from the front
+    for (const [reference, quote] of this.quotes) {
+      if (now - quote.createdAt < QUOTE_TTL) break;
+      this.quotes.delete(reference);
+    }
+
+    const quote: ResourceQuote = {
+      resourceId,
+      pricePerSecond: pricing.pricePerSecond,
+      pricePerByte: pricing.pricePerByte,
+      pricePerMessage: pricing.pricePerMessage,
+      maxSessionDuration: this.resourcePricing(resourceId).maxSessionDuration,
+      totalPrice: pricing.totalPrice,
+      createdAt: now,
+      promo: pricing.promo?.applied
+        ? { code: pricing.promo.code, listPrice: pricing.promo.listPrice, discount: pricing.promo.discount }
+        : undefined,
+    };
+
+    this.detailsReferences(paymentDetails).forEach(reference => this.quotes.set(reference, quote));
+    return quote;
+  }
+
+  /**
+   * Sign a schema's quote, bound to its payment references (undefined without a quote signer)
+   */
+  private signQuote(quote: ResourceQuote, paymentDetails: any): SignedQuote | undefined {
+    if (!this.config.quoteSigner) return undefined;
+
+    const unsigned: Omit<SignedQuote, 'signature'> = {
+      resourceId: quote.resourceId,
+      pricePerSecond: quote.pricePerSecond,
+      pricePerByte: quote.pricePerByte,
+      pricePerMessage: quote.pricePerMessage,
+      maxSessionDuration: quote.maxSessionDuration,
+      totalPrice: quote.totalPrice,
+      currency: this.config.currency,
+      references: this.detailsReferences(paymentDetails),
+      expiresAt: quote.createdAt + this.config.quoteTtl * 1000,
+      promo: quote.promo,
+    };
+
+    return { ...unsigned, signature: this.config.quoteSigner.sign(WS402.quotePayload(unsigned)) };
+  }
+
+  /**
+   * Check the signed quote a payment was sent with
+   * Returns the rejection, or null if the quote is valid for this connection and proof.
+   */
+  private checkSignedQuote(resourceId: string | undefined, proof: any, quote: any): { reason: string; message: string } | null {
+    if (!quote || typeof quote !== 'object') {
+      return { reason: 'quote_missing', message: 'A signed quote from the schema is required' };
+    }
+
+    let valid = false;
+    try {
+      valid = this.config.quoteSigner!.verify(WS402.quotePayload(quote), quote.signature);
+    } catch (error) {
+      // Malformed quote fields
+    }
+    if (!valid) {
+      return { reason: 'quote_invalid', message: 'Quote signature is invalid' };
+    }
+
+    if (Date.now() > quote.expiresAt) {
+      return { reason: 'quote_expired', message: 'Quote has expired - request a new schema' };
+    }
+
+    const reference = this.proofReference(proof);
+    const wrongResource = resourceId && quote.resourceId !== resourceId;
+    const wrongPayment = quote.references.length > 0 && !(reference && quote.references.includes(reference));
+    if (wrongResource || wrongPayment) {
+      return { reason: 'quote_mismatch', message: 'Quote was issued for another resource or payment' };
+    }
+
+    return null;
+  }
+
+  /**
+   * Canonical string a quote's signature covers
+   */
+  static quotePayload(quote: Omit<SignedQuote, 'signature'>): string {
+    return JSON.stringify([
+      'ws402-quote',
+      String(quote.resourceId),
+      Number(quote.pricePerSecond),
+      Number(quote.pricePerByte),
+      Number(quote.pricePerMessage),
+      Number(quote.maxSessionDuration),
+      Number(quote.totalPrice),
+      String(quote.currency),
+      quote.references.map(String),
+      Number(quote.expiresAt),
+      quote.promo
+        ? [String(quote.promo.code), Number(quote.promo.listPrice), Number(quote.promo.discount)]
+        : null,
+    ]);
+  }
+
+  /**
+   * Payment references in a schema's payment details (one per provider)
+   */
+  private detailsReferences(paymentDetails: any): string[] {
+    const entries = Array.isArray(paymentDetails) ? paymentDetails : [paymentDetails];
+
+    // Ledger details wrap the deposit provider's details
+    return entries
+      .map(details => this.paymentReference(details?.reference ?? details?.deposit?.reference))
+      .filter((reference): reference is string => !!reference);
+  }
+
+  /**
+   * Payment reference a proof was paid against
+   */
+  private proofReference(proof: any): string | undefined {
+    return this.paymentReference(proof?.reference ?? proof?.paymentHash ?? proof?.deposit?.reference);
+  }
+
+  /**
+   * Payment reference as a string key (Solana details carry it as a PublicKey)
+   */
+  private paymentReference(reference: any): string | undefined {
+    return reference ? String(reference) : undefined;
+  }
+
+  /**
+   * Quote a payment was made against: the verified signed quote, or the one remembered for its reference
+   */
+  private quoteFor(resourceId: string | undefined, proof: any, signedQuote?: SignedQuote): ResourceQuote | SignedQuote | undefined {
+    if (signedQuote) return signedQuote;
+
+    const reference = this.proofReference(proof);
+    const quote = reference ? this.quotes.get(reference) : undefined;
+
+    // A quote for another resource does not price this connection
+    return quote && !(resourceId && quote.resourceId !== resourceId) ? quote : undefined;
+  }
+
+  /**
+   * Pricing for a new session, by priority: the quote the payment was made against,
+   * the provider's verified price, the resource's catalog entry, the config
+   */
+  private sessionPricing(
+    connectionResourceId: string | undefined,
+    quote?: ResourceQuote | SignedQuote,
+    verification?: PaymentVerification
+  ): ResourcePrices & { resourceId?: string; promo?: AppliedPromo } {
+    const resourceId = quote?.resourceId ?? connectionResourceId;
+    const prices = quote ?? this.resourcePricing(resourceId);
+
+    return {
+      resourceId,
+      pricePerSecond: quote ? quote.pricePerSecond : verification?.pricePerSecond ?? prices.pricePerSecond,
+      pricePerByte: prices.pricePerByte,
+      pricePerMessage: prices.pricePerMessage,
+      maxSessionDuration: prices.maxSessionDuration,
+      promo: quote?.promo,
     };
   }
 
@@ -92,175 +574,1325 @@ export class WS402 extends EventEmitter {
    */
   private async handleConnection(ws: WebSocket, req: any): Promise<void> {
     const userId = this.config.userIdExtractor(req);
+    const resourceId = this.config.resourceIdExtractor(req);
+
+    // Wait for payment proof (or a resume token from a dropped session)
+    const handshake = await this.waitForHandshake(ws);
+
+    if (handshake.type === 'resume_session') {
+      this.resumeSession(ws, handshake.resumeToken);
+      return;
+    }
+
+    if (handshake.type === 'channel_open') {
+      await this.openChannelSession(ws, userId, resourceId, handshake.channel);
+      return;
+    }
+
+    const paymentProof = handshake.proof;
+    const providerName = this.resolveProviderName(handshake.provider);
+
+    // Checked before the payment, so a rejected quote does not consume the proof
+    if (this.config.quoteSigner) {
+      const rejection = this.checkSignedQuote(resourceId, paymentProof, handshake.quote);
+      if (rejection) {
+        this.sendMessage(ws, { type: 'payment_rejected', ...rejection });
+        ws.close(1008, 'Quote verification failed');
+        return;
+      }
+    }
 
-    // Wait for payment proof
-    const paymentProof = await this.waitForPaymentProof(ws);
+    const quote = this.quoteFor(resourceId, paymentProof, this.config.quoteSigner ? handshake.quote : undefined);
+    const promo = quote?.promo;
+
+    // Count the promo code's use first, so a used-up code cannot start a session
+    if (promo && !(await this.config.promoCodeStore?.redeem(promo.code))) {
+      this.sendMessage(ws, {
+        type: 'payment_rejected',
+        reason: 'promo_unavailable',
+        message: 'Promo code has expired or reached its usage limit',
+      });
+      ws.close(1008, 'Promo code unavailable');
+      return;
+    }
     
-    // Verify payment with provider
-    const verification = await this.paymentProvider.verifyPayment(paymentProof);
+    // Verify payment with the provider the client paid through (nothing to pay if the promo covers it all)
+    const free = !!promo && quote!.totalPrice <= 0;
+    const verification = free
+      ? await this.verifyPromoReference(paymentProof)
+      : providerName
+        ? await this.verifyPayment(providerName, paymentProof)
+        : { valid: false, amount: 0, reason: 'Unknown or unspecified payment provider' };
     
     if (!verification.valid) {
-      ws.send(JSON.stringify({
+      if (promo) {
+        await this.config.promoCodeStore?.release(promo.code);
+      }
+
+      this.sendMessage(ws, {
         type: 'payment_rejected',
         reason: verification.reason || 'Invalid payment',
-      }));
+      });
       ws.close(1008, 'Payment verification failed');
       return;
     }
 
-    // Create session with custom price if provided
-    const session: WS402Session = {
+    const reference = this.proofReference(paymentProof);
+    if (reference) {
+      this.quotes.delete(reference);
+    }
+
+    // A free session still needs a provider for any top-ups
+    const sessionProvider = providerName ?? (free ? this.paymentProviders.keys().next().value : undefined);
+    const pricing = this.sessionPricing(resourceId, quote, verification);
+    const session = this.createSession(userId, sessionProvider!, verification.amount, paymentProof, pricing);
+    if (verification.confirmation) {
+      this.trackConfirmation(session, session.payments[0], verification.confirmation);
+    }
+    this.startSession(ws, session);
+  }
+
+  /**
+   * Open a session funded by a payment channel: no prepayment, the client
+   * streams cumulative vouchers and the latest one is redeemed at the end
+   */
+  private async openChannelSession(ws: WebSocket, userId: string, resourceId: string | undefined, request: any): Promise<void> {
+    let verification: ChannelVerification = this.config.channelProvider
+      ? await this.config.channelProvider.openChannel(request)
+      : { valid: false, reason: 'Payment channels are not enabled' };
+
+    // Vouchers are cumulative, so a channel can only back one session
+    if (verification.valid && verification.channel &&
+        !(await this.config.proofRegistry.consume([`channel:${verification.channel.channelId}`]))) {
+      verification = { valid: false, reason: 'Payment channel has already been used' };
+    }
+
+    if (!verification.valid || !verification.channel) {
+      this.sendMessage(ws, {
+        type: 'payment_rejected',
+        reason: verification.reason || 'Invalid payment channel',
+      });
+      ws.close(1008, 'Channel verification failed');
+      return;
+    }
+
+    // Vouchers are signed as the session runs, so there is no quote - bill at catalog prices
+    const pricing = { resourceId, ...this.resourcePricing(resourceId) };
+    const session = this.createSession(userId, 'channel', verification.channel.capacity, request, pricing);
+    session.payments = [];
+    session.channel = {
+      ...verification.channel,
+      voucher: null,
+      voucherAmount: 0,
+    };
+
+    this.startSession(ws, session);
+  }
+
+  /**
+   * Create a session for a verified payment, billed at the given prices
+   */
+  private createSession(
+    userId: string,
+    providerName: string,
+    amount: number,
+    paymentProof: any,
+    pricing: ResourcePrices & { resourceId?: string; promo?: AppliedPromo }
+  ): WS402Session {
+    return {
       userId,
       sessionId: this.generateSessionId(),
       startTime: Date.now(),
-      paidAmount: verification.amount,
+      paidAmount: amount + (pricing.promo?.discount || 0),
       consumedAmount: 0,
       elapsedSeconds: 0,
       bytesTransferred: 0,
       messageCount: 0,
       status: 'active',
+      paymentProvider: providerName,
       paymentProof,
-      pricePerSecond: this.config.pricePerSecond,
-      _resourceId: req._resourceId, // Pass resourceId from request to session
+      payments: [{ proof: paymentProof, amount, timestamp: Date.now() }],
+      pricePerSecond: pricing.pricePerSecond,
+      pricingModel: this.config.pricingModel,
+      pricePerByte: pricing.pricePerByte,
+      pricePerMessage: pricing.pricePerMessage,
+      maxSessionDuration: pricing.maxSessionDuration,
+      promo: pricing.promo,
+      timeBilling: this.pricingEngine ? {
+        billedSeconds: 0,
+        amount: 0,
+        volumeDiscount: this.pricingEngine.volumeDiscount(userId),
+        currentPricePerSecond: this.pricingEngine.priceAt(pricing.pricePerSecond, 0),
+      } : undefined,
+      meterPrices: { ...this.config.meters },
+      meterUsage: {},
+      pausedDuration: 0,
+      resumeToken: this.config.resumeWindow > 0 ? this.generateResumeToken() : undefined,
+      _resourceId: pricing.resourceId,
     };
+  }
 
-    this.sessions.set(ws, session);
+  /**
+   * Confirm a new session to the client and start tracking it
+   */
+  private startSession(ws: WebSocket, session: WS402Session): void {
     this.config.onPaymentVerified(session);
 
     // Send confirmation
-    ws.send(JSON.stringify({
+    this.sendMessage(ws, {
       type: 'session_started',
       sessionId: session.sessionId,
+      resourceId: session._resourceId,
       balance: session.paidAmount,
+      paymentProvider: session.paymentProvider,
+      pricingModel: session.pricingModel,
       pricePerSecond: session.pricePerSecond,
-    }));
+      pricePerByte: session.pricePerByte,
+      pricePerMessage: session.pricePerMessage,
+      meters: session.meterPrices,
+      maxSessionDuration: session.maxSessionDuration,
+      promo: session.promo,
+      resumeToken: session.resumeToken,
+      resumeWindow: session.resumeToken ? this.config.resumeWindow : undefined,
+      channel: session.channel ? {
+        channelId: session.channel.channelId,
+        capacity: session.channel.capacity,
+        voucherTimeout: this.config.voucherTimeout,
+      } : undefined,
+    });
+
+    this.bindSession(ws, session);
+  }
+
+  /**
+   * Attach a session to a socket: start usage tracking and handle its messages and disconnection
+   */
+  private bindSession(ws: WebSocket, session: WS402Session): void {
+    this.sessions.set(ws, session);
+    this.checkpoint(session);
+
+    // Data the application sends to the client is metered like data received from it;
+    // WS402's own messages go out through the unwrapped send and are not billed
+    const send = ws.send.bind(ws) as (...args: any[]) => void;
+    this.protocolSends.set(ws, send);
+    ws.send = ((data: any, ...args: any[]) => {
+      if (this.sessions.get(ws) === session && ws.readyState === WebSocket.OPEN) {
+        session.bytesTransferred += this.byteLength(data);
+        session.messageCount++;
+      }
+      send(data, ...args);
+    }) as WebSocket['send'];
 
     // Start usage tracking
     const interval = setInterval(() => {
       this.updateUsage(ws, session);
     }, this.config.updateInterval);
 
-    // Handle messages (count bytes)
+    // Handle messages (top-up control messages, otherwise count bytes)
     ws.on('message', (data: WebSocket.Data) => {
-      const byteLength = Buffer.byteLength(data.toString(), 'utf8');
-      session.bytesTransferred += byteLength;
+      const text = data.toString();
+      if (this.handleControlMessage(ws, session, text)) return;
+
+      session.bytesTransferred += this.byteLength(data);
       session.messageCount++;
     });
 
     // Handle disconnection
     ws.on('close', () => {
       clearInterval(interval);
-      this.endSession(ws, session);
+      this.detachSession(ws, session);
     });
 
     ws.on('error', (error) => {
       clearInterval(interval);
       this.emit('error', error);
-      this.endSession(ws, session);
+      this.detachSession(ws, session);
     });
   }
 
   /**
-   * Wait for client to send payment proof
+   * Send a WS402 protocol message, bypassing the metering of a bound session's socket
    */
-  private waitForPaymentProof(ws: WebSocket): Promise<any> {
-    return new Promise((resolve, reject) => {
-      const timeout = setTimeout(() => {
-        reject(new Error('Payment proof timeout'));
-      }, 30000); // 30 second timeout
-
-      const handler = (data: WebSocket.Data) => {
-        try {
-          const message = JSON.parse(data.toString());
-          if (message.type === 'payment_proof') {
-            clearTimeout(timeout);
-            ws.removeListener('message', handler);
-            resolve(message.proof);
-          }
-        } catch (e) {
-          // Ignore invalid JSON
-        }
-      };
-
-      ws.on('message', handler);
-    });
+  private sendMessage(ws: WebSocket, message: object): void {
+    const send = this.protocolSends.get(ws) || ws.send.bind(ws);
+    send(JSON.stringify(message));
   }
 
   /**
-   * Update session usage and check limits
+   * Size in bytes of a message as sent or received (string, buffer or fragments)
    */
-  private updateUsage(ws: WebSocket, session: WS402Session): void {
-    if (ws.readyState !== WebSocket.OPEN) return;
-
-    const now = Date.now();
-    session.elapsedSeconds = Math.floor((now - session.startTime) / 1000);
-    
-    // Use session-specific price instead of global config
-    session.consumedAmount = session.elapsedSeconds * session.pricePerSecond;
+  private byteLength(data: any): number {
+    if (typeof data === 'string') return Buffer.byteLength(data, 'utf8');
+    if (Array.isArray(data)) return data.reduce((sum: number, chunk) => sum + this.byteLength(chunk), 0);
+    return data?.byteLength ?? 0;
+  }
 
-    const remaining = session.paidAmount - session.consumedAmount;
+  /**
+   * Socket went away: keep the session resumable for the resume window, or end it
+   */
+  private detachSession(ws: WebSocket, session: WS402Session): void {
+    // 'error' is followed by 'close', and a resumed session may have moved to a new socket
+    if (this.sessions.get(ws) !== session) return;
+    this.sessions.delete(ws);
 
-    // Send update to client
-    const update: UsageUpdate = {
-      type: 'usage_update',
-      sessionId: session.sessionId,
-      elapsedSeconds: session.elapsedSeconds,
-      consumedAmount: session.consumedAmount,
-      remainingBalance: remaining,
-      bytesTransferred: session.bytesTransferred,
-      messageCount: session.messageCount,
-    };
+    if (!session.resumeToken || session.status !== 'active') {
+      this.endSession(session).catch(error => this.emit('error', error));
+      return;
+    }
 
-    ws.send(JSON.stringify(update));
+    // Bill up to the disconnect; time spent suspended is not charged
+    this.meterSession(session);
+    session.status = 'suspended';
+    session.suspendedAt = Date.now();
+    this.checkpoint(session);
 
-    // Check if balance exhausted
-    if (remaining <= 0) {
-      ws.send(JSON.stringify({
-        type: 'balance_exhausted',
-        message: 'Prepaid balance has been fully consumed',
-      }));
-      ws.close(1000, 'Balance exhausted');
-    }
+    const token = session.resumeToken;
+    const timer = setTimeout(() => {
+      this.suspendedSessions.delete(token);
+      this.endSession(session).catch(error => this.emit('error', error));
+    }, this.config.resumeWindow * 1000);
 
-    // Check max duration
-    if (session.elapsedSeconds >= this.config.maxSessionDuration) {
-      ws.send(JSON.stringify({
-        type: 'max_duration_reached',
-        message: 'Maximum session duration reached',
-      }));
-      ws.close(1000, 'Max duration reached');
-    }
+    this.suspendedSessions.set(token, { session, timer });
+    this.emit('session_suspended', session);
   }
 
   /**
-   * End session and issue refund
+   * Reattach a suspended (or still-open) session to a new socket using its resume token
    */
-  private async endSession(ws: WebSocket, session: WS402Session): Promise<void> {
-    session.status = 'ended';
-    
-    const refundAmount = session.paidAmount - session.consumedAmount;
+  private resumeSession(ws: WebSocket, resumeToken: any): void {
+    let session: WS402Session | undefined;
+    const suspended = typeof resumeToken === 'string'
+      ? this.suspendedSessions.get(resumeToken)
+      : undefined;
 
-    if (refundAmount > 0) {
-      try {
-        const refund: RefundDetails = {
+    if (suspended) {
+      clearTimeout(suspended.timer);
+      this.suspendedSessions.delete(resumeToken);
+      session = suspended.session;
+      session.pausedDuration += Date.now() - (session.suspendedAt || Date.now());
+      session.suspendedAt = undefined;
+      session.status = 'active';
+      if (session.channel) {
+        // Time away is not billed, so it does not count against the voucher either
+        session.channel.unpaidSince = undefined;
+      }
+    } else {
+      // The old socket may not have noticed the drop yet - take the session over
+      for (const [oldWs, active] of this.sessions.entries()) {
+        if (active.resumeToken && active.resumeToken === resumeToken) {
+          this.sessions.delete(oldWs);
+          oldWs.terminate();
+          session = active;
+          break;
+        }
+      }
+    }
+
+    if (!session) {
+      this.sendMessage(ws, {
+        type: 'resume_rejected',
+        reason: 'Invalid or expired resume token',
+      });
+      ws.close(1008, 'Session resume failed');
+      return;
+    }
+
+    this.sendMessage(ws, {
+      type: 'session_resumed',
+      sessionId: session.sessionId,
+      balance: session.paidAmount - session.consumedAmount,
+      elapsedSeconds: session.elapsedSeconds,
+    });
+
+    this.bindSession(ws, session);
+    this.emit('session_resumed', session);
+  }
+
+  /**
+   * Verify a payment proof with the provider and claim it in the proof registry,
+   * so the same payment cannot open or top up more than one session
+   */
+  private async verifyPayment(providerName: string, proof: any): Promise<PaymentVerification> {
+    const keys = this.proofKeys(proof);
+    const replayed: PaymentVerification = {
+      valid: false,
+      amount: 0,
+      reason: 'Payment proof has already been used',
+    };
+
+    if (keys.length > 0 && await this.config.proofRegistry.isConsumed(keys)) {
+      return replayed;
+    }
+
+    const verification = await this.getProvider(providerName).verifyPayment(proof);
+    if (!verification.valid) return verification;
+
+    // Claim after verification so a proof that fails (e.g. not yet confirmed) can be retried
+    if (keys.length > 0 && !(await this.config.proofRegistry.consume(keys))) {
+      return replayed;
+    }
+
+    return verification;
+  }
+
+  /**
+   * Claim the reference of a schema a promo code covers in full, so it starts one session only
+   */
+  private async verifyPromoReference(proof: any): Promise<PaymentVerification> {
+    const reference = this.proofReference(proof);
+    if (!reference || !(await this.config.proofRegistry.consume([`ref:${reference}`]))) {
+      return { valid: false, amount: 0, reason: 'Payment proof has already been used' };
+    }
+    return { valid: true, amount: 0 };
+  }
+
+  /**
+   * Registry keys for a proof: the transaction (tx hash, signature or id) and the payment reference
+   */
+  private proofKeys(proof: any): string[] {
+    const keys: string[] = [];
+    const txId = proof?.txHash ?? proof?.signature ?? proof?.txId;
+
+    if (txId) {
+      // EVM hashes are case-insensitive hex; Solana signatures are case-sensitive base58
+      const id = String(txId);
+      keys.push(`tx:${id.startsWith('0x') ? id.toLowerCase() : id}`);
+    }
+    if (proof?.reference) {
+      keys.push(`ref:${proof.reference}`);
+    }
+    // Wrapped on-chain proof (e.g. a LedgerPaymentProvider deposit)
+    if (proof?.deposit) {
+      keys.push(...this.proofKeys(proof.deposit));
+    }
+
+    return keys;
+  }
+
+  /**
+   * Wait for client to send payment proof or a resume token
+   */
+  private waitForHandshake(ws: WebSocket): Promise<any> {
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        reject(new Error('Payment proof timeout'));
+      }, 30000); // 30 second timeout
+
+      const handler = (data: WebSocket.Data) => {
+        try {
+          const message = JSON.parse(data.toString());
+          if (['payment_proof', 'resume_session', 'channel_open'].includes(message.type)) {
+            clearTimeout(timeout);
+            ws.removeListener('message', handler);
+            resolve(message);
+          }
+        } catch (e) {
+          // Ignore invalid JSON
+        }
+      };
+
+      ws.on('message', handler);
+    });
+  }
+
+  /**
+   * Handle top-up messages sent on an active session
+   * Returns true if the message was a WS402 control message
+   */
+  private handleControlMessage(ws: WebSocket, session: WS402Session, text: string): boolean {
+    let message: any;
+    try {
+      message = JSON.parse(text);
+    } catch (e) {
+      return false;
+    }
+
+    if (message?.type === 'topup_request') {
+      this.handleTopUpRequest(ws, session, message.amount).catch(error => {
+        this.emit('error', error);
+      });
+      return true;
+    }
+
+    if (message?.type === 'payment_proof') {
+      this.handleTopUpProof(ws, session, message.proof).catch(error => {
+        this.emit('error', error);
+      });
+      return true;
+    }
+
+    if (message?.type === 'voucher') {
+      this.handleVoucher(ws, session, message.voucher).catch(error => {
+        this.emit('error', error);
+      });
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Send payment details for an additional payment on an open session
+   */
+  private async handleTopUpRequest(ws: WebSocket, session: WS402Session, amount: any): Promise<void> {
+    if (session.channel) {
+      this.sendMessage(ws, {
+        type: 'topup_rejected',
+        reason: 'Payment channel sessions are funded by vouchers',
+      });
+      return;
+    }
+
+    if (typeof amount !== 'number' || !Number.isFinite(amount) || amount <= 0) {
+      this.sendMessage(ws, {
+        type: 'topup_rejected',
+        reason: 'Top-up amount must be a positive number',
+      });
+      return;
+    }
+
+    try {
+      const provider = this.getProvider(session.paymentProvider);
+      const paymentDetails = provider.requestPaymentDetails
+        ? await provider.requestPaymentDetails(amount, session._resourceId)
+        : provider.generatePaymentDetails(amount);
+
+      this.sendMessage(ws, {
+        type: 'topup_details',
+        amount,
+        paymentDetails,
+      });
+    } catch (error: any) {
+      if (ws.readyState !== WebSocket.OPEN) return;
+      this.sendMessage(ws, {
+        type: 'topup_rejected',
+        reason: error.message,
+      });
+    }
+  }
+
+  /**
+   * Verify a top-up payment and credit it to the session balance
+   */
+  private async handleTopUpProof(ws: WebSocket, session: WS402Session, proof: any): Promise<void> {
+    if (session.channel) {
+      this.sendMessage(ws, {
+        type: 'topup_rejected',
+        reason: 'Payment channel sessions are funded by vouchers',
+      });
+      return;
+    }
+
+    // Top-ups are paid through the provider the session was opened with
+    const verification = await this.verifyPayment(session.paymentProvider, proof);
+
+    if (!verification.valid) {
+      if (ws.readyState === WebSocket.OPEN) {
+        this.sendMessage(ws, {
+          type: 'topup_rejected',
+          reason: verification.reason || 'Invalid payment',
+        });
+      }
+      return;
+    }
+
+    const payment: SessionPayment = {
+      proof,
+      amount: verification.amount,
+      timestamp: Date.now(),
+    };
+    if (verification.confirmation) {
+      this.trackConfirmation(session, payment, verification.confirmation);
+    }
+
+    // Session ended while the payment was being verified - return it in full
+    if (session.status === 'ended') {
+      await this.refundPayment(session, payment, payment.amount);
+      return;
+    }
+
+    session.payments.push(payment);
+    session.paidAmount += payment.amount;
+    session.lowBalanceNotified = false;
+    this.checkpoint(session);
+
+    this.config.onTopUp(session, payment);
+    this.emit('topup', { session, payment });
+
+    this.sendMessage(ws, {
+      type: 'topup_confirmed',
+      sessionId: session.sessionId,
+      amount: payment.amount,
+      balance: session.paidAmount - session.consumedAmount,
+    });
+  }
+
+  /**
+   * Accept a newer cumulative voucher on a payment channel session
+   */
+  private async handleVoucher(ws: WebSocket, session: WS402Session, voucher: any): Promise<void> {
+    const channel = session.channel;
+    const reject = (reason: string) => {
+      if (ws.readyState === WebSocket.OPEN) {
+        this.sendMessage(ws, { type: 'voucher_rejected', reason });
+      }
+    };
+
+    if (!channel || !this.config.channelProvider) {
+      reject('Session is not funded by a payment channel');
+      return;
+    }
+
+    const verification = await this.config.channelProvider.verifyVoucher(channel, voucher);
+
+    // Session settled while the voucher was being verified - it was redeemed with the previous voucher
+    if (session.status === 'ended') {
+      reject('Session has ended');
+      return;
+    }
+    if (!verification.valid) {
+      reject(verification.reason || 'Invalid voucher');
+      return;
+    }
+    if (verification.amount > channel.capacity) {
+      reject('Voucher exceeds channel capacity');
+      return;
+    }
+    // Checked after verification, as a newer voucher may have been accepted meanwhile
+    if (verification.amount <= channel.voucherAmount) {
+      reject('Voucher amount must exceed the previous voucher');
+      return;
+    }
+
+    channel.voucher = voucher;
+    channel.voucherAmount = verification.amount;
+    this.checkpoint(session);
+
+    if (ws.readyState === WebSocket.OPEN) {
+      this.sendMessage(ws, {
+        type: 'voucher_accepted',
+        sessionId: session.sessionId,
+        amount: channel.voucherAmount,
+      });
+    }
+  }
+
+  /**
+   * Close a channel session whose consumption has run ahead of its vouchers for too long
+   * Returns false if the session was closed
+   */
+  private checkVoucher(ws: WebSocket, session: WS402Session): boolean {
+    const channel = session.channel!;
+
+    if (channel.voucherAmount >= session.consumedAmount) {
+      channel.unpaidSince = undefined;
+      return true;
+    }
+
+    channel.unpaidSince = channel.unpaidSince ?? Date.now();
+    if (Date.now() - channel.unpaidSince < this.config.voucherTimeout * 1000) {
+      return true;
+    }
+
+    this.sendMessage(ws, {
+      type: 'voucher_missing',
+      message: 'No voucher received for consumed usage',
+      consumedAmount: session.consumedAmount,
+      voucherAmount: channel.voucherAmount,
+    });
+    this.closeSession(ws, session, 1008, 'Voucher missing');
+    return false;
+  }
+
+  /**
+   * Update session usage and check limits
+   */
+  private updateUsage(ws: WebSocket, session: WS402Session): void {
+    if (ws.readyState !== WebSocket.OPEN) return;
+
+    const breakdown = this.meterSession(session);
+    this.checkpoint(session);
+
+    const remaining = session.paidAmount - session.consumedAmount;
+
+    // Send update to client
+    const update: UsageUpdate = {
+      type: 'usage_update',
+      sessionId: session.sessionId,
+      elapsedSeconds: session.elapsedSeconds,
+      consumedAmount: session.consumedAmount,
+      remainingBalance: remaining,
+      bytesTransferred: session.bytesTransferred,
+      messageCount: session.messageCount,
+      breakdown,
+      voucherAmount: session.channel?.voucherAmount,
+    };
+
+    this.sendMessage(ws, update);
+
+    if (session.channel && !this.checkVoucher(ws, session)) return;
+
+    if (remaining <= 0) {
+      this.handleExhaustedBalance(ws, session);
+      if (session.status === 'ended') return;
+    } else {
+      // Balance restored (e.g. by a top-up) - leave the grace period
+      session.graceEndsAt = undefined;
+      this.checkLowBalance(ws, session, remaining);
+    }
+
+    // Check max duration
+    if (session.elapsedSeconds >= (session.maxSessionDuration ?? this.config.maxSessionDuration)) {
+      this.sendMessage(ws, {
+        type: 'max_duration_reached',
+        message: 'Maximum session duration reached',
+      });
+      this.closeSession(ws, session, 1000, 'Max duration reached');
+    }
+  }
+
+  /**
+   * Warn the client once when the balance crosses a low-balance threshold
+   */
+  private checkLowBalance(ws: WebSocket, session: WS402Session, remaining: number): void {
+    if (session.lowBalanceNotified) return;
+
+    const { percentage, secondsRemaining } = this.config.lowBalanceThreshold;
+    const estimatedSecondsRemaining = this.estimateSecondsRemaining(session, remaining);
+
+    const belowPercentage = percentage !== undefined &&
+      (remaining / session.paidAmount) * 100 <= percentage;
+    const belowSeconds = secondsRemaining !== undefined &&
+      estimatedSecondsRemaining !== null &&
+      estimatedSecondsRemaining <= secondsRemaining;
+
+    if (!belowPercentage && !belowSeconds) return;
+
+    session.lowBalanceNotified = true;
+
+    const warning: LowBalanceWarning = {
+      type: 'low_balance',
+      sessionId: session.sessionId,
+      remainingBalance: remaining,
+      estimatedSecondsRemaining,
+      gracePeriod: this.config.gracePeriod,
+    };
+
+    this.sendMessage(ws, warning);
+    this.emit('low_balance', { session, warning });
+  }
+
+  /**
+   * Estimate seconds left from the session's average burn rate (null if nothing consumed yet)
+   */
+  private estimateSecondsRemaining(session: WS402Session, remaining: number): number | null {
+    if (session.elapsedSeconds <= 0 || session.consumedAmount <= 0) return null;
+
+    const burnRate = session.consumedAmount / session.elapsedSeconds;
+    return Math.floor(remaining / burnRate);
+  }
+
+  /**
+   * Start the grace period, or close the session once it has run out
+   */
+  private handleExhaustedBalance(ws: WebSocket, session: WS402Session): void {
+    if (this.config.gracePeriod > 0) {
+      if (session.graceEndsAt === undefined) {
+        session.graceEndsAt = Date.now() + this.config.gracePeriod * 1000;
+
+        this.sendMessage(ws, {
+          type: 'grace_period_started',
           sessionId: session.sessionId,
-          amount: refundAmount,
-          reason: 'unused_balance',
-          timestamp: Date.now(),
-        };
+          gracePeriod: this.config.gracePeriod,
+          expiresAt: session.graceEndsAt,
+          message: 'Prepaid balance consumed - top up to keep the session open',
+        });
+        this.emit('grace_period', session);
+        return;
+      }
 
-        await this.paymentProvider.issueRefund(session.paymentProof, refundAmount);
-        
-        this.config.onRefundIssued(session, refund);
-        this.emit('refund', { session, refund });
-      } catch (error) {
-        this.emit('refund_error', { session, error });
+      if (Date.now() < session.graceEndsAt) return;
+    }
+
+    this.sendMessage(ws, {
+      type: 'balance_exhausted',
+      message: 'Prepaid balance has been fully consumed',
+    });
+    this.closeSession(ws, session, 1000, 'Balance exhausted');
+  }
+
+  /**
+   * Close a session's socket from the server side and settle it right away
+   * Detached first, so the close is not treated as a resumable disconnect.
+   */
+  private closeSession(ws: WebSocket, session: WS402Session, code: number, reason: string): void {
+    if (this.sessions.get(ws) === session) {
+      this.sessions.delete(ws);
+    }
+    ws.close(code, reason);
+    this.endSession(session).catch(error => this.emit('error', error));
+  }
+
+  /**
+   * Recalculate elapsed time and consumed amount using the session's pricing model
+   */
+  private meterSession(session: WS402Session): UsageBreakdown {
+    const now = Date.now();
+    const pausedMs = session.pausedDuration + (session.suspendedAt ? now - session.suspendedAt : 0);
+    session.elapsedSeconds = Math.floor((now - session.startTime - pausedMs) / 1000);
+
+    const breakdown = this.calculateBreakdown(session.pricingModel, session);
+    if (this.pricingEngine && session.timeBilling) {
+      this.applyPricingRules(this.pricingEngine, session, session.timeBilling, breakdown, now);
+    }
+    session.consumedAmount = this.totalOf(breakdown);
+
+    return breakdown;
+  }
+
+  /**
+   * Bill the seconds elapsed since the last update under the pricing rules
+   * and apply the session's volume discount to the breakdown
+   */
+  private applyPricingRules(
+    engine: PricingEngine,
+    session: WS402Session,
+    billing: NonNullable<WS402Session['timeBilling']>,
+    breakdown: UsageBreakdown,
+    now: number
+  ): void {
+    if (this.billsTime(session.pricingModel)) {
+      if (session.elapsedSeconds > billing.billedSeconds) {
+        // The unbilled seconds ran up to now
+        const startAt = now - (session.elapsedSeconds - billing.billedSeconds) * 1000;
+        const segments = engine.price(session.pricePerSecond, billing.billedSeconds, session.elapsedSeconds, startAt);
+
+        billing.amount += segments.reduce((sum, segment) => sum + segment.amount, 0);
+        billing.billedSeconds = session.elapsedSeconds;
       }
+
+      billing.currentPricePerSecond = engine.priceAt(session.pricePerSecond, session.elapsedSeconds, now);
+      breakdown.time = billing.amount;
+      breakdown.currentPricePerSecond = billing.currentPricePerSecond;
+    }
+
+    if (billing.volumeDiscount > 0) {
+      breakdown.discount = this.totalOf(breakdown) * billing.volumeDiscount;
+    }
+  }
+
+  /**
+   * Price metered usage according to a pricing model
+   */
+  private calculateBreakdown(
+    model: PricingModel,
+    usage: Pick<WS402Session,
+      'elapsedSeconds' | 'bytesTransferred' | 'messageCount' |
+      'pricePerSecond' | 'pricePerByte' | 'pricePerMessage' |
+      'meterUsage' | 'meterPrices'>
+  ): UsageBreakdown {
+    const billsTime = this.billsTime(model);
+    const billsBytes = model === 'per-byte' || model === 'weighted';
+    const billsMessages = model === 'per-message' || model === 'weighted';
+
+    // Application-defined meters are billed on top of any pricing model
+    const meters: Record<string, number> = {};
+    for (const [meter, quantity] of Object.entries(usage.meterUsage)) {
+      meters[meter] = quantity * (usage.meterPrices[meter] || 0);
     }
 
+    return {
+      time: billsTime ? usage.elapsedSeconds * usage.pricePerSecond : 0,
+      bytes: billsBytes ? usage.bytesTransferred * usage.pricePerByte : 0,
+      messages: billsMessages ? usage.messageCount * usage.pricePerMessage : 0,
+      meters,
+    };
+  }
+
+  private billsTime(model: PricingModel): boolean {
+    return model === 'per-second' || model === 'weighted';
+  }
+
+  /**
+   * Sum every component of a usage breakdown, less any discount
+   */
+  private totalOf(breakdown: UsageBreakdown): number {
+    const meters = Object.values(breakdown.meters).reduce((sum, amount) => sum + amount, 0);
+    return breakdown.time + breakdown.bytes + breakdown.messages + meters - (breakdown.discount || 0);
+  }
+
+  /**
+   * End session and issue refund
+   */
+  private async endSession(session: WS402Session): Promise<void> {
+    if (session.status === 'ended') return;
+
+    // Bill usage since the last update before settling
+    this.meterSession(session);
+    session.status = 'ended';
+
+    for (const { payment, amount } of this.allocateRefunds(session)) {
+      await this.refundPayment(session, payment, amount);
+    }
+    await this.settleChannel(session);
+
+    // Counts toward the user's volume discounts
+    this.pricingEngine?.recordSpend(session.userId, session.consumedAmount);
+
     this.config.onSessionEnd(session);
     this.emit('session_end', session);
-    this.sessions.delete(ws);
+    await this.removeCheckpoint(session);
+  }
+
+  /**
+   * Settle sessions left in the session store by a previous process
+   * Call on startup, before attaching: each orphaned session is refunded the
+   * balance left unconsumed at its last checkpoint, then removed from the store.
+   */
+  async recoverSessions(): Promise<WS402Session[]> {
+    const liveSessionIds = new Set([
+      ...Array.from(this.sessions.values()).map(session => session.sessionId),
+      ...Array.from(this.suspendedSessions.values()).map(({ session }) => session.sessionId),
+    ]);
+    const orphaned = (await this.config.sessionStore.list())
+      .filter(session => !liveSessionIds.has(session.sessionId));
+
+    for (const session of orphaned) {
+      session.status = 'ended';
+
+      for (const { payment, amount } of this.allocateRefunds(session)) {
+        await this.refundPayment(session, payment, amount, 'session_recovered');
+      }
+      await this.settleChannel(session);
+
+      await this.removeCheckpoint(session);
+      this.emit('session_recovered', session);
+    }
+
+    return orphaned;
+  }
+
+  /**
+   * Persist session state to the session store
+   */
+  private checkpoint(session: WS402Session): void {
+    this.config.sessionStore.save(session).catch(error => {
+      this.emit('store_error', { session, error });
+    });
+  }
+
+  /**
+   * Remove a settled session from the session store
+   */
+  private async removeCheckpoint(session: WS402Session): Promise<void> {
+    try {
+      await this.config.sessionStore.delete(session.sessionId);
+    } catch (error) {
+      this.emit('store_error', { session, error });
+    }
+  }
+
+  /**
+   * Record application-defined usage (e.g. tokens generated) against a session
+   * Charges are added to the consumed amount immediately; if they exhaust the
+   * balance the client is notified and the session is closed.
+   */
+  recordUsage(sessionId: string, meter: string, quantity: number): void {
+    if (!(meter in this.config.meters)) {
+      throw new Error(`Unknown meter: ${meter}`);
+    }
+    if (!Number.isFinite(quantity) || quantity < 0) {
+      throw new Error('Quantity must be a non-negative number');
+    }
+
+    for (const [ws, session] of this.sessions.entries()) {
+      if (session.sessionId !== sessionId) continue;
+
+      session.meterUsage[meter] = (session.meterUsage[meter] || 0) + quantity;
+      this.meterSession(session);
+      this.checkpoint(session);
+
+      if (session.paidAmount - session.consumedAmount <= 0) {
+        this.updateUsage(ws, session);
+      }
+      return;
+    }
+
+    throw new Error(`Session not found: ${sessionId}`);
+  }
+
+  /**
+   * Split the unused balance across payments, consuming the oldest payment first
+   * so each refund goes back against the proof that funded it
+   */
+  private allocateRefunds(session: WS402Session): Array<{ payment: SessionPayment; amount: number }> {
+    // Promo credit is spent first and never refunded
+    let consumed = session.consumedAmount - (session.promo?.discount || 0);
+    const refunds: Array<{ payment: SessionPayment; amount: number }> = [];
+
+    for (const payment of session.payments) {
+      if (payment.failed) continue;
+
+      const covered = Math.min(payment.amount, Math.max(consumed, 0));
+      consumed -= covered;
+
+      const amount = payment.amount - covered;
+      if (amount > 0) {
+        refunds.push({ payment, amount });
+      }
+    }
+
+    return refunds;
+  }
+
+  /**
+   * Queue a refund of part of a single payment and start the first attempt
+   * The attempt is not awaited: the job is already queued, and a payout can take
+   * minutes (e.g. waiting for a RefundBatcher flush), so sessions end without it.
+   * Each payment is queued once, so a session settled twice (e.g. by
+   * recoverSessions after a crash) is not refunded twice.
+   */
+  private async refundPayment(
+    session: WS402Session,
+    payment: SessionPayment,
+    amount: number,
+    reason: string = 'unused_balance'
+  ): Promise<void> {
+    const index = session.payments.indexOf(payment);
+    const now = Date.now();
+    const job: RefundJob = {
+      // Top-ups that arrive after the session ended are not in payments
+      id: index >= 0 ? `${session.sessionId}:${index}` : `${session.sessionId}:topup-${payment.timestamp}`,
+      sessionId: session.sessionId,
+      provider: session.paymentProvider,
+      proof: payment.proof,
+      amount,
+      reason,
+      // Money from a provisional payment is only returned once it is confirmed
+      status: payment.provisional ? 'held' : 'pending',
+      attempts: 0,
+      nextAttemptAt: now,
+      createdAt: now,
+    };
+
+    try {
+      if (!(await this.config.refundStore.add(job))) return;
+    } catch (error) {
+      // Still try to pay it - a lost record beats a lost refund
+      this.emit('store_error', { session, error });
+    }
+
+    if (job.status === 'pending') {
+      this.attemptRefund(job, session).catch(error => this.emit('error', error));
+      return;
+    }
+
+    // With no confirmation in progress (e.g. recovered after a restart), release it with retryRefund()
+    this.pendingConfirmations.get(payment)?.then(async result => {
+      if (result.valid) {
+        job.status = 'pending';
+        await this.attemptRefund(job, session);
+      } else {
+        job.status = 'cancelled';
+        job.lastError = result.reason;
+        await this.saveRefund(job, session);
+      }
+    }).catch(error => this.emit('error', error));
+  }
+
+  /**
+   * Watch a provisional payment's confirmation, ending its session if it fails
+   */
+  private trackConfirmation(
+    session: WS402Session,
+    payment: SessionPayment,
+    confirmation: Promise<PaymentVerification>
+  ): void {
+    payment.provisional = true;
+    this.pendingConfirmations.set(payment, confirmation);
+
+    confirmation.then(async result => {
+      this.pendingConfirmations.delete(payment);
+
+      if (result.valid) {
+        payment.provisional = false;
+        if (session.status !== 'ended') this.checkpoint(session);
+        this.emit('payment_confirmed', { session, payment });
+        return;
+      }
+
+      await this.failProvisionalPayment(session, payment, result.reason || 'Payment failed');
+    }).catch(error => this.emit('error', error));
+  }
+
+  /**
+   * Withdraw a provisional payment whose transaction failed and terminate its session
+   */
+  private async failProvisionalPayment(session: WS402Session, payment: SessionPayment, reason: string): Promise<void> {
+    payment.failed = true;
+    payment.provisional = false;
+    if (session.payments.includes(payment)) {
+      session.paidAmount -= payment.amount;
+    }
+
+    this.emit('payment_failed', { session, payment, reason });
+
+    if (session.status === 'ended') return;
+
+    for (const [ws, active] of this.sessions.entries()) {
+      if (active !== session) continue;
+
+      // Detach first so the close is not treated as a resumable disconnect
+      this.sessions.delete(ws);
+      if (ws.readyState === WebSocket.OPEN) {
+        this.sendMessage(ws, {
+          type: 'payment_failed',
+          reason,
+        });
+      }
+      ws.close(1008, 'Payment failed');
+    }
+
+    if (session.resumeToken) {
+      const suspended = this.suspendedSessions.get(session.resumeToken);
+      if (suspended?.session === session) {
+        clearTimeout(suspended.timer);
+        this.suspendedSessions.delete(session.resumeToken);
+      }
+    }
+
+    await this.endSession(session);
+  }
+
+  /**
+   * Try to pay a queued refund, scheduling a retry (or dead-lettering it) on failure
+   */
+  private async attemptRefund(job: RefundJob, session?: WS402Session): Promise<RefundJob> {
+    if (this.refundsInFlight.has(job.id)) return job;
+    this.refundsInFlight.add(job.id);
+
+    job.attempts++;
+
+    try {
+      await this.getProvider(job.provider).issueRefund(job.proof, job.amount);
+
+      job.status = 'settled';
+      job.settledAt = Date.now();
+      delete job.lastError;
+      await this.saveRefund(job, session);
+
+      if (session) {
+        const refund: RefundDetails = {
+          sessionId: job.sessionId,
+          amount: job.amount,
+          reason: job.reason,
+          timestamp: job.settledAt,
+        };
+
+        this.config.onRefundIssued(session, refund);
+        this.emit('refund', { session, refund, job });
+      } else {
+        this.emit('refund_settled', { job });
+      }
+    } catch (error: any) {
+      job.lastError = error?.message || String(error);
+
+      // Retrying cannot pay a refund the provider will not send - leave it to an operator
+      if (error instanceof ManualRefundRequiredError || job.attempts >= this.refundRetry.maxAttempts) {
+        job.status = 'dead';
+      } else {
+        const delay = this.refundRetry.baseDelay * 2 ** (job.attempts - 1);
+        job.nextAttemptAt = Date.now() + Math.min(delay, this.refundRetry.maxDelay);
+      }
+      await this.saveRefund(job, session);
+
+      this.emit('refund_error', { session, error, job });
+      if (job.status === 'dead') {
+        this.emit('refund_dead', { job, error });
+      }
+    } finally {
+      this.refundsInFlight.delete(job.id);
+    }
+
+    return job;
+  }
+
+  /**
+   * Retry pending refunds whose backoff has elapsed
+   */
+  private async retryDueRefunds(): Promise<void> {
+    const due = (await this.config.refundStore.list('pending'))
+      .filter(job => job.nextAttemptAt <= Date.now());
+
+    for (const { id } of due) {
+      // Re-read: an earlier attempt may have settled it while the list was processed
+      const job = await this.config.refundStore.get(id);
+      if (job?.status === 'pending' && job.nextAttemptAt <= Date.now()) {
+        await this.attemptRefund(job);
+      }
+    }
+  }
+
+  /**
+   * Persist a refund's state, reporting store failures
+   */
+  private async saveRefund(job: RefundJob, session?: WS402Session): Promise<void> {
+    try {
+      await this.config.refundStore.update(job);
+    } catch (error) {
+      this.emit('store_error', { session, error });
+    }
+  }
+
+  /**
+   * List queued refunds, optionally only those with a status ('dead' for the dead-letter list)
+   */
+  async listRefunds(status?: RefundJob['status']): Promise<RefundJob[]> {
+    return this.config.refundStore.list(status);
+  }
+
+  /**
+   * Attempt a pending, held or dead refund now
+   * A dead refund gets one more attempt and stays dead if it fails. Release a
+   * held refund only once its payment is confirmed on-chain.
+   */
+  async retryRefund(id: string): Promise<RefundJob> {
+    const job = await this.config.refundStore.get(id);
+
+    if (!job) {
+      throw new Error(`Refund not found: ${id}`);
+    }
+    if (job.status === 'settled' || job.status === 'cancelled') {
+      throw new Error(`Refund already ${job.status}: ${id}`);
+    }
+    if (this.refundsInFlight.has(id)) {
+      throw new Error(`Refund is being processed: ${id}`);
+    }
+
+    job.status = 'pending';
+    return this.attemptRefund(job);
+  }
+
+  /**
+   * Record a refund as settled outside WS402 (e.g. paid by hand) so it is no longer retried
+   */
+  async markRefundSettled(id: string, note?: string): Promise<RefundJob> {
+    const job = await this.config.refundStore.get(id);
+
+    if (!job) {
+      throw new Error(`Refund not found: ${id}`);
+    }
+    if (job.status === 'settled' || job.status === 'cancelled') {
+      throw new Error(`Refund already ${job.status}: ${id}`);
+    }
+    if (this.refundsInFlight.has(id)) {
+      throw new Error(`Refund is being processed: ${id}`);
+    }
+
+    job.status = 'settled';
+    job.settledAt = Date.now();
+    job.note = note || 'Marked settled manually';
+    await this.config.refundStore.update(job);
+
+    this.emit('refund_settled', { job });
+    return job;
+  }
+
+  /**
+   * Payment details for an amount: a single object with one provider,
+   * otherwise one entry per provider tagged with its name
+   */
+  private generatePaymentDetails(amount: number): any {
+    return this.tagPaymentDetails(
+      Array.from(this.paymentProviders.entries()).map(([name, provider]) => (
+        [name, provider.generatePaymentDetails(amount)]
+      ))
+    );
+  }
+
+  /**
+   * Payment details from every provider, created asynchronously where supported
+   */
+  private async requestPaymentDetails(
+    amount: number,
+    resourceId: string,
+    estimatedDuration: number
+  ): Promise<any> {
+    const entries = await Promise.all(
+      Array.from(this.paymentProviders.entries()).map(async ([name, provider]): Promise<[string, any]> => [
+        name,
+        provider.requestPaymentDetails
+          ? await provider.requestPaymentDetails(amount, resourceId, estimatedDuration)
+          : provider.generatePaymentDetails(amount),
+      ])
+    );
+
+    return this.tagPaymentDetails(entries);
+  }
+
+  /**
+   * Single provider: its details as-is; several: one entry per provider tagged with its name
+   */
+  private tagPaymentDetails(entries: Array<[string, any]>): any {
+    if (entries.length === 1) {
+      return entries[0][1];
+    }
+
+    return entries.map(([name, details]) => ({ ...details, provider: name }));
+  }
+
+  /**
+   * Provider a client paid through: the named one, or the only one registered
+   */
+  private resolveProviderName(name: any): string | undefined {
+    if (typeof name === 'string') {
+      return this.paymentProviders.has(name) ? name : undefined;
+    }
+    if (this.paymentProviders.size === 1) {
+      return this.paymentProviders.keys().next().value;
+    }
+    return undefined;
+  }
+
+  /**
+   * Look up a registered provider by name
+   */
+  private getProvider(name: string | undefined): PaymentProvider {
+    const resolved = this.resolveProviderName(name);
+    if (!resolved) {
+      throw new Error(`Payment provider not found: ${name}`);
+    }
+    return this.paymentProviders.get(resolved)!;
+  }
+
+  /**
+   * Distinguish a single provider from a map of named providers
+   */
+  private isPaymentProvider(value: any): value is PaymentProvider {
+    return typeof value?.verifyPayment === 'function'
+      && typeof value?.generatePaymentDetails === 'function';
+  }
+
+  /**
+   * Redeem the latest voucher of a channel session for the amount consumed
+   */
+  private async settleChannel(session: WS402Session): Promise<void> {
+    const channel = session.channel;
+    if (!channel?.voucher) return;
+
+    const amount = Math.min(session.consumedAmount, channel.voucherAmount);
+    if (amount <= 0) return;
+
+    try {
+      if (!this.config.channelProvider) {
+        throw new Error('Payment channels are not enabled');
+      }
+
+      await this.config.channelProvider.redeemVoucher(channel, channel.voucher, amount);
+      this.emit('voucher_redeemed', { session, amount });
+    } catch (error) {
+      this.emit('redeem_error', { session, error });
+    }
   }
 
   /**
@@ -290,6 +1922,24 @@ export class WS402 extends EventEmitter {
     return url.searchParams.get('userId') || 'anonymous';
   }
 
+  /**
+   * Default resource extractor - reads resourceId from query params
+   * (a resourceId an earlier extractor set on the request as _resourceId is kept)
+   */
+  private defaultResourceIdExtractor(req: any): string | undefined {
+    if (req._resourceId) return req._resourceId;
+
+    const url = new URL(req.url, `http://${req.headers.host}`);
+    return url.searchParams.get('resourceId') || undefined;
+  }
+
+  /**
+   * Generate an unguessable token for resuming a dropped session
+   */
+  private generateResumeToken(): string {
+    return randomBytes(24).toString('hex');
+  }
+
   /**
    * Generate unique session ID
    */
@@ -0,0 +1,14 @@
+// src/errors.ts
+
+/**
+ * Thrown by a provider's issueRefund() when it did not pay the refund and
+ * cannot on retry (automatic refunds disabled, no signing key, an amount too
+ * small to send). The refund queue moves these straight to the dead-letter
+ * list for an operator to pay by hand.
+ */
+export class ManualRefundRequiredError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ManualRefundRequiredError';
+  }
+}
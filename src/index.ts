@@ -1,9 +1,32 @@
 // src/index.ts
 export { WS402 } from './WS402';
+export { PricingEngine } from './PricingEngine';
 export { MockPaymentProvider } from './providers/MockPaymentProvider';
 export { BasePaymentProvider } from './providers/BasePaymentProvider';
+export { EvmPaymentProvider } from './providers/EvmPaymentProvider';
+export { EvmTransactionSender } from './providers/EvmTransactionSender';
 export { SolanaPaymentProvider } from './providers/SolanaPaymentProvider';
+export { LightningPaymentProvider } from './providers/LightningPaymentProvider';
+export { LedgerPaymentProvider } from './providers/LedgerPaymentProvider';
+export { EvmChannelProvider } from './providers/EvmChannelProvider';
+export { SolanaChannelProvider } from './providers/SolanaChannelProvider';
 export { ProxyPaymentProvider } from './providers/ProxyPaymentProvider';
+export { RefundBatcher } from './providers/RefundBatcher';
+export { MemorySessionStore } from './stores/MemorySessionStore';
+export { FileSessionStore } from './stores/FileSessionStore';
+export { MemoryProofRegistry } from './stores/MemoryProofRegistry';
+export { FileProofRegistry } from './stores/FileProofRegistry';
+export { MemoryLedgerStore } from './stores/MemoryLedgerStore';
+export { FileLedgerStore } from './stores/FileLedgerStore';
+export { MemoryRefundStore } from './stores/MemoryRefundStore';
+export { FileRefundStore } from './stores/FileRefundStore';
+export { MemoryPromoCodeStore } from './stores/MemoryPromoCodeStore';
+export { StaticPriceOracle } from './oracles/StaticPriceOracle';
+export { FilePriceOracle } from './oracles/FilePriceOracle';
+export { lockConversionRate } from './oracles/lockConversionRate';
+export { HmacQuoteSigner } from './signers/HmacQuoteSigner';
+export { Ed25519QuoteSigner } from './signers/Ed25519QuoteSigner';
 export { createWS402Middleware, isWS402Request } from './middleware';
 export { WS402HTTPMiddleware, createHTTPResourceRoute } from './middlewarehttp';
+export { ManualRefundRequiredError } from './errors';
 export * from './types';
\ No newline at end of file
@@ -14,15 +14,26 @@ export function createWS402Middleware(
     resourceIdExtractor = (req: Request) => req.params.resourceId || 'default',
     estimatedDurationExtractor = (req: Request) => 
       parseInt(req.query.duration as string) || 300,
+    estimatedBytesExtractor = (req: Request) =>
+      parseInt(req.query.bytes as string) || undefined,
+    estimatedMessagesExtractor = (req: Request) =>
+      parseInt(req.query.messages as string) || undefined,
+    pricePerSecondExtractor = () => undefined,
+    promoCodeExtractor = (req: Request) =>
+      (req.query.promo as string) || undefined,
     schemaEndpoint = '/ws402/schema/:resourceId',
   } = options;
 
-  return (req: Request, res: Response, next: NextFunction) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
     try {
       const resourceId = resourceIdExtractor(req);
       const estimatedDuration = estimatedDurationExtractor(req);
 
-      const schema = ws402.generateSchema(resourceId, estimatedDuration);
+      const schema = await ws402.requestSchema(resourceId, estimatedDuration, pricePerSecondExtractor(req), {
+        estimatedBytes: estimatedBytesExtractor(req),
+        estimatedMessages: estimatedMessagesExtractor(req),
+        promoCode: promoCodeExtractor(req),
+      });
       
       res.json(schema);
     } catch (error) {
@@ -0,0 +1,35 @@
+// src/oracles/FilePriceOracle.ts
+import { promises as fs } from 'fs';
+import { OraclePrice, PriceOracle } from '../types';
+
+/**
+ * Prices read from a JSON file, e.g. one a cron job refreshes
+ *
+ * The file maps 'ASSET/CURRENCY' to a price or to `{ price, timestamp }`:
+ *   { "ETH/USD": { "price": 3120.5, "timestamp": 1760000000000 }, "SOL/USD": 142.1 }
+ * Bare prices are dated by the file's modification time. The file is re-read
+ * on every quote, so an updated file takes effect immediately.
+ */
+export class FilePriceOracle implements PriceOracle {
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async getPrice(asset: string, currency: string): Promise<OraclePrice> {
+    const [contents, stats] = await Promise.all([
+      fs.readFile(this.filePath, 'utf8'),
+      fs.stat(this.filePath),
+    ]);
+
+    const entry = JSON.parse(contents)[`${asset}/${currency}`];
+    if (entry === undefined) {
+      throw new Error(`No price for ${asset}/${currency} in ${this.filePath}`);
+    }
+
+    return typeof entry === 'number'
+      ? { price: entry, timestamp: stats.mtimeMs }
+      : { price: Number(entry.price), timestamp: Number(entry.timestamp ?? stats.mtimeMs) };
+  }
+}
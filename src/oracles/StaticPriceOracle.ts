@@ -0,0 +1,33 @@
+// src/oracles/StaticPriceOracle.ts
+import { OraclePrice, PriceOracle } from '../types';
+
+/**
+ * Fixed prices, for tests and offline development
+ * Prices are keyed 'ASSET/CURRENCY' (e.g. 'ETH/USD') and are always reported
+ * as current, unless set with an explicit timestamp.
+ */
+export class StaticPriceOracle implements PriceOracle {
+  private prices: Map<string, { price: number; timestamp?: number }> = new Map();
+
+  constructor(prices: Record<string, number> = {}) {
+    for (const [pair, price] of Object.entries(prices)) {
+      this.prices.set(pair, { price });
+    }
+  }
+
+  /**
+   * Set a price, optionally as observed at a given time (ms timestamp) to simulate stale rates
+   */
+  setPrice(asset: string, currency: string, price: number, timestamp?: number): void {
+    this.prices.set(`${asset}/${currency}`, { price, timestamp });
+  }
+
+  async getPrice(asset: string, currency: string): Promise<OraclePrice> {
+    const entry = this.prices.get(`${asset}/${currency}`);
+    if (!entry) {
+      throw new Error(`No price for ${asset}/${currency}`);
+    }
+
+    return { price: entry.price, timestamp: entry.timestamp ?? Date.now() };
+  }
+}
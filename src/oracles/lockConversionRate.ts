@@ -0,0 +1,34 @@
+// src/oracles/lockConversionRate.ts
+import { FiatPricing, LockedRate } from '../types';
+
+/**
+ * Convert the oracle's current price into a provider conversion rate for one payment
+ * Throws if the price is older than maxRateAge, so stale prices are never quoted.
+ *
+ * @param assetDecimals - Decimals of the chain base unit (18 for wei, 9 for lamports, token decimals)
+ */
+export async function lockConversionRate(
+  pricing: FiatPricing,
+  asset: string,
+  assetDecimals: number
+): Promise<LockedRate> {
+  const maxRateAge = pricing.maxRateAge || 300; // 5 minutes
+  const { price, timestamp } = await pricing.oracle.getPrice(asset, pricing.currency);
+
+  if (!Number.isFinite(price) || price <= 0) {
+    throw new Error(`Invalid ${asset}/${pricing.currency} price from oracle: ${price}`);
+  }
+
+  const age = (Date.now() - timestamp) / 1000;
+  if (!(age <= maxRateAge)) {
+    throw new Error(
+      `${asset}/${pricing.currency} price is ${Math.round(age)}s old (max ${maxRateAge}s) - refusing to quote`
+    );
+  }
+
+  // Amount units per base unit: price of one base unit, in minor currency units
+  const exponent = (pricing.decimals ?? 2) - assetDecimals;
+  const conversionRate = exponent >= 0 ? price * Math.pow(10, exponent) : price / Math.pow(10, -exponent);
+
+  return { conversionRate, asset, currency: pricing.currency, price, timestamp };
+}
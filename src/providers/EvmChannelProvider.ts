@@ -0,0 +1,183 @@
+// src/providers/EvmChannelProvider.ts
+import { ethers } from 'ethers';
+import { ChannelVerification, PaymentChannel, PaymentChannelProvider, PaymentVerification } from '../types';
+
+export interface EvmChannelProviderConfig {
+  /** Chain ID in the EIP-712 domain */
+  chainId: number;
+
+  /** Escrow contract holding channel deposits, in the EIP-712 domain (optional) */
+  verifyingContract?: string;
+
+  /** EIP-712 domain name (default: 'WS402') */
+  domainName?: string;
+
+  /** Conversion rate: wei (or token units) to native units */
+  conversionRate?: number;
+
+  /** Submit a voucher to the escrow for the consumed amount, in wei (or token units) */
+  redeem: (channel: PaymentChannel, voucher: any, amountUnits: bigint) => Promise<void>;
+
+  /** Check the channel is funded on-chain (e.g. escrow balance >= capacity) */
+  verifyChannel: (channel: PaymentChannel) => Promise<boolean>;
+}
+
+/**
+ * EVM Payment Channel Provider for WS402
+ *
+ * Channels and vouchers are EIP-712 signatures by the payer, verified locally:
+ * - Open: `{ channelId, payer, capacity, signature }` signing `Channel(bytes32 channelId,address payer,uint256 capacity)`
+ * - Voucher: `{ channelId, amount, signature }` signing `Voucher(bytes32 channelId,uint256 amount)`
+ *
+ * Amounts are cumulative wei (or token units) as decimal strings. Redemption is
+ * delegated to the `redeem` callback, which submits the voucher to the escrow.
+ */
+export class EvmChannelProvider implements PaymentChannelProvider {
+  /** EIP-712 types clients sign */
+  static readonly CHANNEL_TYPES = {
+    Channel: [
+      { name: 'channelId', type: 'bytes32' },
+      { name: 'payer', type: 'address' },
+      { name: 'capacity', type: 'uint256' },
+    ],
+  };
+
+  static readonly VOUCHER_TYPES = {
+    Voucher: [
+      { name: 'channelId', type: 'bytes32' },
+      { name: 'amount', type: 'uint256' },
+    ],
+  };
+
+  private domain: ethers.TypedDataDomain;
+  private config: Required<Omit<EvmChannelProviderConfig, 'verifyingContract'>>;
+
+  constructor(config: EvmChannelProviderConfig) {
+    // A signed capacity is only a promise - the session balance must be backed by escrowed funds
+    if (typeof config.verifyChannel !== 'function') {
+      throw new Error('verifyChannel is required to check channels are funded on-chain');
+    }
+
+    this.config = {
+      chainId: config.chainId,
+      domainName: config.domainName || 'WS402',
+      conversionRate: config.conversionRate || 1,
+      redeem: config.redeem,
+      verifyChannel: config.verifyChannel,
+    };
+
+    this.domain = {
+      name: this.config.domainName,
+      version: '1',
+      chainId: config.chainId,
+      ...(config.verifyingContract ? { verifyingContract: config.verifyingContract } : {}),
+    };
+  }
+
+  /**
+   * EIP-712 domain clients sign channels and vouchers with
+   */
+  getDomain(): ethers.TypedDataDomain {
+    return { ...this.domain };
+  }
+
+  /**
+   * Verify the payer's signature over the channel and its on-chain funding
+   */
+  async openChannel(request: any): Promise<ChannelVerification> {
+    try {
+      const { channelId, payer, capacity, signature } = request || {};
+      const payerAddress = ethers.getAddress(payer);
+      const capacityUnits = BigInt(capacity);
+
+      if (capacityUnits <= 0n) {
+        return { valid: false, reason: 'Channel capacity must be positive' };
+      }
+
+      const signer = ethers.verifyTypedData(
+        this.domain,
+        EvmChannelProvider.CHANNEL_TYPES,
+        { channelId, payer: payerAddress, capacity: capacityUnits },
+        signature
+      );
+
+      if (signer !== payerAddress) {
+        return { valid: false, reason: 'Channel not signed by payer' };
+      }
+
+      const channel: PaymentChannel = {
+        channelId,
+        payer: payerAddress,
+        capacity: this.toAmount(capacityUnits),
+      };
+
+      if (!(await this.config.verifyChannel(channel))) {
+        return { valid: false, reason: 'Channel is not funded' };
+      }
+
+      this.log('Channel opened', { channelId, payer: payerAddress, capacity: capacityUnits.toString() });
+      return { valid: true, channel };
+
+    } catch (error: any) {
+      this.log('Channel verification error', error.message);
+      return { valid: false, reason: `Invalid channel: ${error.message}` };
+    }
+  }
+
+  /**
+   * Verify a voucher was signed by the channel's payer
+   */
+  async verifyVoucher(channel: PaymentChannel, voucher: any): Promise<PaymentVerification> {
+    try {
+      if (voucher?.channelId !== channel.channelId) {
+        return { valid: false, amount: 0, reason: 'Voucher is for another channel' };
+      }
+
+      const amountUnits = BigInt(voucher.amount);
+      const signer = ethers.verifyTypedData(
+        this.domain,
+        EvmChannelProvider.VOUCHER_TYPES,
+        { channelId: voucher.channelId, amount: amountUnits },
+        voucher.signature
+      );
+
+      if (signer !== channel.payer) {
+        return { valid: false, amount: 0, reason: 'Voucher not signed by payer' };
+      }
+
+      return { valid: true, amount: this.toAmount(amountUnits) };
+
+    } catch (error: any) {
+      return { valid: false, amount: 0, reason: `Invalid voucher: ${error.message}` };
+    }
+  }
+
+  /**
+   * Redeem the voucher for the consumed amount through the escrow
+   */
+  async redeemVoucher(channel: PaymentChannel, voucher: any, amount: number): Promise<void> {
+    const amountUnits = BigInt(Math.floor(amount / this.config.conversionRate));
+
+    this.log('Redeeming voucher', {
+      channelId: channel.channelId,
+      voucherAmount: voucher.amount,
+      amountUnits: amountUnits.toString(),
+    });
+
+    await this.config.redeem(channel, voucher, amountUnits);
+  }
+
+  /**
+   * Convert wei (or token units) to native units
+   */
+  private toAmount(units: bigint): number {
+    return Number(units) * this.config.conversionRate;
+  }
+
+  /**
+   * Log channel activity
+   */
+  private log(message: string, data?: any): void {
+    console.log(`[EvmChannelProvider] ${message}`, data || '');
+  }
+}
@@ -0,0 +1,1131 @@
+// src/providers/EvmPaymentProvider.ts
+import { BatchRefund, FiatPricing, FinalityPolicy, LockedRate, PaymentProvider, PaymentVerification } from '../types';
+import { ethers } from 'ethers';
+import BigNumber from 'bignumber.js';
+import { EvmTransactionSender } from './EvmTransactionSender';
+import { lockConversionRate } from '../oracles/lockConversionRate';
+import { ManualRefundRequiredError } from '../errors';
+
+/** Canonical Multicall3 deployment, at the same address on most EVM chains */
+const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+const ERC20_INTERFACE = new ethers.Interface(['function transfer(address to, uint256 amount) returns (bool)']);
+
+export interface EvmPaymentProviderConfig {
+  /** RPC endpoint URL of the chain */
+  rpcEndpoint: string;
+  
+  /** Merchant wallet address to receive payments */
+  merchantWallet: string;
+  
+  /** Merchant private key for signing refund transactions */
+  merchantPrivateKey?: string;
+  
+  /** Chain ID (e.g. 1 for Ethereum, 42161 for Arbitrum, 10 for Optimism, 137 for Polygon) */
+  chainId: number;
+  
+  /** Network identifier included in payment details (default: 'chain-<chainId>') */
+  network?: string;
+  
+  /** Human-readable chain name used in logs and instructions (default: network) */
+  chainName?: string;
+  
+  /** Native currency symbol (default: 'ETH') */
+  nativeCurrency?: string;
+  
+  /** Block confirmations to wait for before accepting a payment (default: 1) */
+  confirmations?: number;
+  
+  /** Confirmations by amount, and provisional session starts for small payments */
+  finality?: FinalityPolicy<number>;
+  
+  /** Explorer transaction URL template, with {txHash} placeholder */
+  explorerTxUrl?: string;
+  
+  /** Explorer address URL template, with {address} placeholder */
+  explorerAddressUrl?: string;
+  
+  /** Conversion rate: wei to native units (for ERC20 payments, native units per whole token) */
+  conversionRate?: number;
+  
+  /** Prices in a fiat currency, converted with an oracle rate locked per payment (replaces conversionRate) */
+  fiatPricing?: FiatPricing;
+  
+  /** ERC20 token address (optional, for token payments) */
+  erc20Token?: string;
+  
+  /** ERC20 token decimals (optional - read from the token's decimals() if omitted) */
+  erc20Decimals?: number;
+  
+  /** Payment timeout in milliseconds */
+  paymentTimeout?: number;
+  
+  /** Enable automatic refunds (requires merchantPrivateKey) */
+  autoRefund?: boolean;
+  
+  /** Multicall3 contract used for batch refunds (default: the canonical 0xcA11...CA11 deployment) */
+  multicallAddress?: string;
+  
+  /** Ms a refund transaction may stay unmined before it is resent with higher fees (default: 60000) */
+  stuckTimeout?: number;
+  
+  /** Percentage fees are raised by when a stuck refund is resent (default: 15) */
+  gasBumpPercent?: number;
+  
+  /** Times a stuck refund is resent with higher fees (default: 3) */
+  maxGasBumps?: number;
+}
+
+/**
+ * EVM Payment Provider for WS402
+ * 
+ * Works with any EVM-compatible chain (Ethereum, Arbitrum, Optimism, Polygon, ...)
+ * 
+ * Supports:
+ * - Native currency payments
+ * - ERC20 token payments
+ * - On-chain payment verification
+ * - Automatic refunds
+ */
+export class EvmPaymentProvider implements PaymentProvider {
+  /** Payment type tag used in payment details and references */
+  protected paymentType = 'evm';
+
+  private provider: ethers.JsonRpcProvider;
+  private merchantWallet: string;
+  private wallet?: ethers.Wallet;
+  private sender?: EvmTransactionSender;
+  private config: Required<Omit<EvmPaymentProviderConfig, 'erc20Token' | 'erc20Decimals' | 'merchantPrivateKey' | 'explorerTxUrl' | 'explorerAddressUrl' | 'stuckTimeout' | 'gasBumpPercent' | 'maxGasBumps' | 'finality' | 'fiatPricing'>> & { 
+    erc20Token?: string;
+    fiatPricing?: FiatPricing;
+    merchantPrivateKey?: string;
+    explorerTxUrl?: string;
+    explorerAddressUrl?: string;
+  };
+  private finality: Required<FinalityPolicy<number>>;
+  private tokenDecimals?: number;
+  private pendingPayments: Map<string, {
+    amount: number;
+    amountETH: string;
+    amountUnits: bigint;
+    conversionRate: number;
+    referenceData: string;
+    timestamp: number;
+    recipient: string;
+  }>;
+
+  constructor(config: EvmPaymentProviderConfig) {
+    if (!Number.isInteger(config.chainId) || config.chainId <= 0) {
+      throw new Error('chainId must be a positive integer');
+    }
+
+    const network = config.network || `chain-${config.chainId}`;
+
+    this.config = {
+      rpcEndpoint: config.rpcEndpoint,
+      merchantWallet: config.merchantWallet,
+      network,
+      chainId: config.chainId,
+      chainName: config.chainName || network,
+      nativeCurrency: config.nativeCurrency || 'ETH',
+      confirmations: config.confirmations ?? 1,
+      explorerTxUrl: config.explorerTxUrl,
+      explorerAddressUrl: config.explorerAddressUrl,
+      conversionRate: config.conversionRate || 1,
+      paymentTimeout: config.paymentTimeout || 300000, // 5 minutes
+      autoRefund: config.autoRefund !== false, // Default true
+      multicallAddress: config.multicallAddress || MULTICALL3_ADDRESS,
+      erc20Token: config.erc20Token,
+      merchantPrivateKey: config.merchantPrivateKey,
+      fiatPricing: config.fiatPricing,
+    };
+
+    if (config.fiatPricing && config.erc20Token && !config.fiatPricing.asset) {
+      throw new Error('fiatPricing.asset (the token symbol) is required for ERC20 payments');
+    }
+
+    this.finality = {
+      default: config.finality?.default ?? this.config.confirmations,
+      tiers: [...(config.finality?.tiers || [])].sort((a, b) => a.maxAmount - b.maxAmount),
+      provisionalMaxAmount: config.finality?.provisionalMaxAmount || 0,
+    };
+
+    this.provider = new ethers.JsonRpcProvider(config.rpcEndpoint);
+    this.merchantWallet = config.merchantWallet;
+    
+    // Initialize wallet if private key is provided
+    if (config.merchantPrivateKey) {
+      try {
+        this.wallet = new ethers.Wallet(config.merchantPrivateKey, this.provider);
+        // Refunds from one key are sent through a single nonce-tracking queue
+        this.sender = new EvmTransactionSender(this.wallet, {
+          stuckTimeout: config.stuckTimeout,
+          gasBumpPercent: config.gasBumpPercent,
+          maxGasBumps: config.maxGasBumps,
+        });
+        this.log('✅ Wallet initialized with private key - refunds enabled');
+        
+        // Verify wallet address matches merchant wallet
+        if (this.wallet.address.toLowerCase() !== config.merchantWallet.toLowerCase()) {
+          this.log('⚠️  WARNING: Private key address does not match merchant wallet!');
+          this.log(`   Private key: ${this.wallet.address}`);
+          this.log(`   Merchant wallet: ${config.merchantWallet}`);
+        }
+        
+        // Check wallet balance
+        this.checkWalletBalance();
+      } catch (error: any) {
+        this.log('❌ Failed to initialize wallet:', error.message);
+        throw new Error('Invalid merchant private key');
+      }
+    } else {
+      this.log('⚠️  No private key provided - refunds will not be automatic');
+    }
+
+    this.pendingPayments = new Map();
+
+    if (config.erc20Token) {
+      this.tokenDecimals = config.erc20Decimals;
+      // Load decimals up front so payment details can show token amounts
+      this.getTokenDecimals().catch((error: any) => {
+        this.log('⚠️  Could not read token decimals:', error.message);
+      });
+    }
+  }
+
+  /**
+   * Check merchant wallet balance
+   */
+  private async checkWalletBalance(): Promise<void> {
+    if (!this.wallet) return;
+    
+    try {
+      const balance = await this.provider.getBalance(this.wallet.address);
+      const balanceETH = ethers.formatEther(balance);
+      
+      this.log('💰 Merchant wallet balance:', {
+        address: this.wallet.address,
+        balance: balanceETH + ' ' + this.config.nativeCurrency,
+      });
+      
+      // Warn if balance is low
+      const minBalance = ethers.parseEther('0.001'); // 0.001 native minimum recommended
+      if (balance < minBalance) {
+        this.log('⚠️  WARNING: Low merchant wallet balance!');
+        this.log(`   Current: ${balanceETH} ${this.config.nativeCurrency}`);
+        this.log(`   Recommended minimum: 0.001 ${this.config.nativeCurrency}`);
+        this.log(`   You may not be able to process refunds`);
+      }
+    } catch (error: any) {
+      this.log('⚠️  Could not check wallet balance:', error.message);
+    }
+  }
+
+  /**
+   * Generate payment details for the configured EVM chain
+   */
+  generatePaymentDetails(amount: number): any {
+    if (this.config.fiatPricing) {
+      throw new Error('Fiat pricing needs a live rate - use requestPaymentDetails() (ws402.requestSchema)');
+    }
+
+    return this.createPaymentDetails(amount);
+  }
+
+  /**
+   * Generate payment details, converting fiat prices at the oracle's current rate
+   */
+  async requestPaymentDetails(amount: number): Promise<any> {
+    if (!this.config.fiatPricing) {
+      if (this.config.erc20Token) await this.getTokenDecimals();
+      return this.createPaymentDetails(amount);
+    }
+
+    return this.createPaymentDetails(amount, await this.lockRate());
+  }
+
+  /**
+   * Refund proof for a payout to an address, at the oracle's current rate under fiat pricing
+   */
+  async payoutProof(recipient: string): Promise<any> {
+    let senderAddress: string;
+    try {
+      senderAddress = ethers.getAddress(recipient);
+    } catch (error) {
+      throw new Error(`Invalid recipient address: ${recipient}`);
+    }
+
+    if (this.config.erc20Token) await this.getTokenDecimals();
+    const conversionRate = this.config.fiatPricing ? (await this.lockRate()).conversionRate : this.unitRate();
+
+    return { senderAddress, conversionRate };
+  }
+
+  /**
+   * Lock the oracle's current rate for the chain base unit (fiat pricing only)
+   */
+  private async lockRate(): Promise<LockedRate> {
+    const decimals = this.config.erc20Token ? await this.getTokenDecimals() : 18;
+    const asset = this.config.fiatPricing!.asset || this.config.nativeCurrency;
+    return lockConversionRate(this.config.fiatPricing!, asset, decimals);
+  }
+
+  /**
+   * Payment details at a locked oracle rate, or at the configured conversion rate
+   */
+  private createPaymentDetails(amount: number, rate?: LockedRate): any {
+    this.validateAmount(amount);
+    const conversionRate = rate?.conversionRate ?? this.unitRate();
+
+    // Convert amount to wei (or token base units for ERC20 payments)
+    const amountWei = this.toBaseUnits(amount, conversionRate);
+    const amountETH = ethers.formatEther(amountWei);
+
+    const reference = this.generateReference();
+    // Reference is embedded as calldata so the transaction can be tied to this payment
+    const referenceData = ethers.hexlify(ethers.toUtf8Bytes(reference));
+    
+    // Store pending payment
+    this.pendingPayments.set(reference, {
+      amount,
+      amountETH,
+      amountUnits: amountWei,
+      conversionRate,
+      referenceData,
+      timestamp: Date.now(),
+      recipient: this.merchantWallet,
+    });
+
+    const paymentDetails: any = {
+      type: this.paymentType,
+      network: this.config.network,
+      chainId: this.config.chainId,
+      recipient: this.merchantWallet,
+      recipientUrl: this.explorerAddressUrl(this.merchantWallet),
+      amount: amount,
+      amountWei: amountWei.toString(),
+      amountETH: amountETH,
+      currency: this.config.erc20Token ? 'ERC20' : this.config.nativeCurrency,
+      reference,
+      data: referenceData,
+      rate,
+      expiresAt: Date.now() + this.config.paymentTimeout,
+      instructions: {
+        step1: `Connect wallet to ${this.config.chainName} network`,
+        step2: `Send ${amountETH} ${this.config.nativeCurrency} to ${this.merchantWallet} with data ${referenceData}`,
+        step3: 'Copy transaction hash',
+        step4: 'Submit transaction hash as payment proof',
+      }
+    };
+
+    if (this.config.erc20Token) {
+      const amountToken = this.tokenDecimals !== undefined
+        ? ethers.formatUnits(amountWei, this.tokenDecimals)
+        : undefined;
+
+      paymentDetails.tokenAddress = this.config.erc20Token;
+      paymentDetails.tokenDecimals = this.tokenDecimals;
+      paymentDetails.amountUnits = amountWei.toString();
+      paymentDetails.amountToken = amountToken;
+      paymentDetails.instructions.step2 = amountToken
+        ? `Transfer ${amountToken} tokens to ${this.merchantWallet}, appending ${referenceData} to the transfer call data`
+        : `Transfer ${amountWei} token base units to ${this.merchantWallet}, appending ${referenceData} to the transfer call data`;
+    }
+
+    return paymentDetails;
+  }
+
+  /**
+   * Verify payment on the configured EVM chain
+   */
+  async verifyPayment(proof: any): Promise<PaymentVerification> {
+    try {
+      const { txHash, reference } = proof;
+
+      if (!txHash) {
+        return {
+          valid: false,
+          amount: 0,
+          reason: 'Missing transaction hash',
+        };
+      }
+
+      this.log(`Verifying ${this.config.chainName} payment`, { txHash, reference });
+
+      // Get pending payment info
+      const pending = this.pendingPayments.get(reference);
+      if (!pending) {
+        return {
+          valid: false,
+          amount: 0,
+          reason: 'Invalid or expired payment reference',
+        };
+      }
+
+      // Check if payment has expired
+      if (Date.now() - pending.timestamp > this.config.paymentTimeout) {
+        this.pendingPayments.delete(reference);
+        return {
+          valid: false,
+          amount: 0,
+          reason: 'Payment timeout expired',
+        };
+      }
+
+      // Fetch transaction from blockchain
+      const tx = await this.provider.getTransaction(txHash);
+      
+      if (!tx) {
+        return {
+          valid: false,
+          amount: 0,
+          reason: 'Transaction not found on blockchain',
+        };
+      }
+
+      // Verify the transaction carries this payment's reference
+      if (!this.hasReference(tx.data, pending.referenceData)) {
+        return {
+          valid: false,
+          amount: 0,
+          reason: 'Payment reference not found in transaction',
+        };
+      }
+
+      const confirmations = this.confirmationsFor(pending.amount);
+
+      // Small payments start on mempool detection and are confirmed in the background
+      if (pending.amount <= this.finality.provisionalMaxAmount) {
+        const seen = this.verifyPendingTransaction(tx, pending);
+        if (!seen.valid) {
+          return seen;
+        }
+
+        // Refunds go back to the on-chain payer (the token holder for transfer() calls), at the quoted rate
+        proof.senderAddress = tx.from;
+        proof.conversionRate = pending.conversionRate;
+        this.pendingPayments.delete(reference);
+
+        this.log('Payment accepted provisionally', { txHash, amount: pending.amount, confirmations });
+
+        return {
+          valid: true,
+          amount: pending.amount,
+          confirmation: this.confirmTransaction(tx, pending, confirmations, this.config.paymentTimeout),
+        };
+      }
+
+      const verified = await this.confirmTransaction(tx, pending, confirmations);
+      if (!verified.valid) {
+        return verified;
+      }
+
+      // Refunds go back to the on-chain payer, at the quoted rate
+      proof.senderAddress = verified.sender;
+      proof.conversionRate = pending.conversionRate;
+
+      // Clean up pending payment
+      this.pendingPayments.delete(reference);
+
+      this.log('Payment verified successfully', {
+        txHash,
+        explorer: this.explorerTxUrl(txHash),
+        amount: pending.amount,
+        amountETH: pending.amountETH,
+        confirmations,
+      });
+
+      return {
+        valid: true,
+        amount: pending.amount,
+      };
+
+    } catch (error: any) {
+      this.log('Payment verification error', error.message);
+      return {
+        valid: false,
+        amount: 0,
+        reason: `Verification error: ${error.message}`,
+      };
+    }
+  }
+
+  /**
+   * Issue refund via an on-chain transaction
+   */
+  async issueRefund(proof: any, amount: number): Promise<void> {
+    try {
+      const { txHash, senderAddress } = proof;
+
+      if (!senderAddress) {
+        throw new Error('Sender address required for refund');
+      }
+
+      // Validate sender address format
+      try {
+        ethers.getAddress(senderAddress); // Throws if invalid
+      } catch (error) {
+        this.log('❌ Invalid sender address format:', senderAddress);
+        throw new Error(`Invalid sender address: ${senderAddress}`);
+      }
+
+      this.log(`Issuing ${this.config.chainName} refund`, {
+        amount,
+        recipient: senderAddress,
+        originalTx: txHash,
+      });
+
+      // Token payments are refunded in the same token
+      if (this.config.erc20Token) {
+        await this.getTokenDecimals();
+        await this.issueTokenRefund(senderAddress, this.toBaseUnits(amount, this.refundRate(proof)));
+        return;
+      }
+
+      // Convert refund amount to native units
+      const refundWei = this.toBaseUnits(amount, this.refundRate(proof));
+      const refundETH = ethers.formatEther(refundWei);
+
+      this.log('Refund calculated', {
+        amount,
+        refundETH,
+        refundWei: refundWei.toString(),
+      });
+
+      // Check minimum refund amount (must cover gas costs)
+      // Gas cost of a transfer is ~21000 * gas price
+      // Minimum recommended: 0.00001 native units (10000000000000 wei) to cover gas
+      const MIN_REFUND_WEI = BigInt(10000000000000); // 0.00001 native units
+      
+      if (refundWei < MIN_REFUND_WEI) {
+        this.log('⚠️  Refund amount too small to process on-chain', {
+          refundWei: refundWei.toString(),
+          minRequired: MIN_REFUND_WEI.toString(),
+          reason: 'Amount would be consumed by gas fees',
+        });
+        
+        // Small refunds can be accumulated with a RefundBatcher instead
+        throw new ManualRefundRequiredError(
+          `Refund of ${refundETH} ${this.config.nativeCurrency} is below the ${ethers.formatEther(MIN_REFUND_WEI)} ${this.config.nativeCurrency} minimum`
+        );
+      }
+
+      // Check if automatic refunds are enabled and wallet is available
+      if (!this.config.autoRefund || !this.wallet) {
+        this.log('⚠️  Automatic refunds disabled or no private key - manual refund required', {
+          to: senderAddress,
+          amount: refundETH + ' ' + this.config.nativeCurrency,
+          network: this.config.network,
+          chainId: this.config.chainId,
+        });
+        throw new ManualRefundRequiredError('Automatic refunds disabled or no private key - manual refund required');
+      }
+
+      // Check if recipient is a contract (might reject native transfers)
+      const code = await this.provider.getCode(senderAddress);
+      if (code !== '0x') {
+        this.log('⚠️  Recipient is a smart contract - may not accept native transfers', {
+          address: senderAddress,
+          codeLength: code.length,
+        });
+        
+        // For now, we'll try anyway but log the warning
+        // In production, you might want to use a different refund method
+      }
+
+      // Execute automatic refund
+      this.log('💸 Sending refund transaction...');
+
+      try {
+        // Get current gas price
+        const feeData = await this.provider.getFeeData();
+        
+        // Estimate gas cost
+        const gasLimit = 21000n;
+        const maxGasCost = gasLimit * (feeData.maxFeePerGas || BigInt(0));
+        
+        // Verify refund amount covers gas
+        if (refundWei <= maxGasCost) {
+          this.log('⚠️  Refund amount would be consumed by gas fees', {
+            refundWei: refundWei.toString(),
+            estimatedGasCost: maxGasCost.toString(),
+          });
+          throw new ManualRefundRequiredError(
+            `Refund of ${refundETH} ${this.config.nativeCurrency} would be consumed by gas fees`
+          );
+        }
+
+        // Check wallet balance
+        const balance = await this.provider.getBalance(this.wallet.address);
+        const totalNeeded = refundWei + maxGasCost;
+        
+        this.log('💰 Wallet check:', {
+          merchantBalance: ethers.formatEther(balance) + ' ' + this.config.nativeCurrency,
+          refundAmount: ethers.formatEther(refundWei) + ' ' + this.config.nativeCurrency,
+          estimatedGas: ethers.formatEther(maxGasCost) + ' ' + this.config.nativeCurrency,
+          totalNeeded: ethers.formatEther(totalNeeded) + ' ' + this.config.nativeCurrency,
+          canProcess: balance >= totalNeeded,
+        });
+        
+        if (balance < totalNeeded) {
+          this.log('❌ Insufficient balance in merchant wallet', {
+            balance: ethers.formatEther(balance),
+            needed: ethers.formatEther(totalNeeded),
+            refund: ethers.formatEther(refundWei),
+            gas: ethers.formatEther(maxGasCost),
+          });
+          throw new Error('Insufficient funds in merchant wallet for refund + gas');
+        }
+
+        // Try to estimate gas first to catch issues early
+        try {
+          this.log('🔍 Estimating gas for refund transaction...');
+          const gasEstimate = await this.wallet.estimateGas({
+            to: senderAddress,
+            value: refundWei,
+          });
+          this.log('✅ Gas estimation successful:', gasEstimate.toString());
+        } catch (estimateError: any) {
+          this.log('❌ Gas estimation failed:', estimateError.message);
+          this.log('⚠️  This transaction will likely fail');
+          
+          // Try to get more details about why it would fail
+          if (estimateError.message.includes('insufficient funds')) {
+            throw new Error('Insufficient funds for transaction');
+          } else if (estimateError.message.includes('execution reverted')) {
+            throw new Error('Transaction would revert - recipient may not accept native transfers');
+          }
+          
+          // Continue anyway to get actual error
+          this.log('⚠️  Attempting transaction anyway for debugging...');
+        }
+        
+        this.log('⏳ Sending refund transaction, waiting for confirmation...', {
+          to: senderAddress,
+          amount: refundETH + ' ' + this.config.nativeCurrency,
+        });
+
+        // Queued behind other refunds; nonce and fees are set by the sender
+        const receipt = await this.sender!.send({
+          to: senderAddress,
+          value: refundWei,
+          gasLimit: gasLimit,
+        });
+
+        if (receipt && receipt.status === 1) {
+          this.log('✅ Refund confirmed!', {
+            txHash: receipt.hash,
+            explorer: this.explorerTxUrl(receipt.hash),
+            blockNumber: receipt.blockNumber,
+            gasUsed: receipt.gasUsed.toString(),
+            effectiveCost: ethers.formatEther(receipt.gasUsed * receipt.gasPrice),
+          });
+        } else {
+          throw new Error('Refund transaction failed');
+        }
+
+      } catch (txError: any) {
+        if (txError instanceof ManualRefundRequiredError) throw txError;
+        this.log('❌ Refund transaction error:', txError.message);
+        
+        // Check for common errors
+        if (txError.code === 'INSUFFICIENT_FUNDS') {
+          throw new Error('Insufficient funds in merchant wallet for refund');
+        } else if (txError.code === 'NONCE_EXPIRED') {
+          throw new Error('Transaction nonce expired - please retry');
+        } else if (txError.code === 'CALL_EXCEPTION') {
+          this.log('⚠️  Transaction reverted - likely due to recipient being a contract or having a receive() restriction');
+          
+          // Log detailed info for debugging
+          this.log('💡 Possible solutions:', {
+            solution1: 'Recipient might be a smart contract wallet',
+            solution2: 'Recipient might not have a receive() or fallback() function',
+            solution3: 'Consider implementing off-chain refund tracking',
+            recipientAddress: senderAddress,
+          });
+          
+          throw new Error('Refund transaction reverted - recipient cannot receive native transfers (might be a contract)');
+        } else {
+          throw new Error(`Refund transaction failed: ${txError.message}`);
+        }
+      }
+
+    } catch (error: any) {
+      this.log('❌ Refund error:', error.message);
+      if (error instanceof ManualRefundRequiredError) throw error;
+      throw new Error(`Refund failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Refund an ERC20 payment with a transfer() from the merchant wallet
+   */
+  private async issueTokenRefund(recipient: string, refundUnits: bigint): Promise<void> {
+    const decimals = await this.getTokenDecimals();
+    const refundToken = ethers.formatUnits(refundUnits, decimals);
+
+    this.log('Token refund calculated', {
+      token: this.config.erc20Token,
+      refundUnits: refundUnits.toString(),
+      refundToken,
+    });
+
+    if (refundUnits <= 0n) {
+      this.log('⚠️  Token refund amount too small, skipping', { refundUnits: refundUnits.toString() });
+      throw new ManualRefundRequiredError(`Token refund of ${refundUnits} base units is too small to send`);
+    }
+
+    if (!this.config.autoRefund || !this.wallet) {
+      this.log('⚠️  Automatic refunds disabled or no private key - manual refund required', {
+        to: recipient,
+        amount: refundToken + ' tokens',
+        token: this.config.erc20Token,
+        network: this.config.network,
+        chainId: this.config.chainId,
+      });
+      throw new ManualRefundRequiredError('Automatic refunds disabled or no private key - manual refund required');
+    }
+
+    const token = new ethers.Contract(
+      this.config.erc20Token!,
+      [
+        'function balanceOf(address owner) view returns (uint256)',
+        'function transfer(address to, uint256 amount) returns (bool)',
+      ],
+      this.wallet
+    );
+
+    // Merchant needs the tokens, plus native currency for gas
+    const tokenBalance: bigint = await token.balanceOf(this.wallet.address);
+    if (tokenBalance < refundUnits) {
+      throw new Error(
+        `Insufficient token balance in merchant wallet. Need ${refundToken}, have ${ethers.formatUnits(tokenBalance, decimals)}`
+      );
+    }
+
+    const [gasEstimate, feeData, ethBalance] = await Promise.all([
+      token.transfer.estimateGas(recipient, refundUnits),
+      this.provider.getFeeData(),
+      this.provider.getBalance(this.wallet.address),
+    ]);
+    const maxGasCost = gasEstimate * (feeData.maxFeePerGas || feeData.gasPrice || 0n);
+
+    if (ethBalance < maxGasCost) {
+      throw new Error(`Insufficient ${this.config.nativeCurrency} in merchant wallet to pay gas for token refund`);
+    }
+
+    this.log('💸 Sending token refund transaction, waiting for confirmation...', {
+      to: recipient,
+      amount: refundToken + ' tokens',
+    });
+
+    const receipt = await this.sender!.send(
+      await token.transfer.populateTransaction(recipient, refundUnits)
+    );
+
+    if (!receipt || receipt.status !== 1) {
+      throw new Error('Token refund transaction failed');
+    }
+
+    this.log('✅ Token refund confirmed!', {
+      txHash: receipt.hash,
+      explorer: this.explorerTxUrl(receipt.hash),
+      blockNumber: receipt.blockNumber,
+      gasUsed: receipt.gasUsed.toString(),
+    });
+  }
+
+  /**
+   * Refund several payments at once
+   * Each refund is converted at its own payment's rate, then merged per recipient.
+   * Native refunds are paid in one Multicall3 aggregate3Value transaction;
+   * ERC20 refunds are sent one transfer() per recipient.
+   * Resolves with the refunds that could not be paid.
+   */
+  async issueBatchRefund(refunds: BatchRefund[]): Promise<BatchRefund[]> {
+    if (!this.config.autoRefund || !this.wallet) {
+      throw new ManualRefundRequiredError('Automatic refunds disabled or no private key - manual refund required');
+    }
+    if (this.config.erc20Token) {
+      await this.getTokenDecimals();
+    }
+
+    const byRecipient = new Map<string, { recipient: string; refunds: BatchRefund[]; units: bigint }>();
+    for (const refund of refunds) {
+      const recipient = ethers.getAddress(refund.proof.senderAddress);
+      const transfer = byRecipient.get(recipient) || { recipient, refunds: [], units: 0n };
+      transfer.refunds.push(refund);
+      transfer.units += this.toBaseUnits(refund.amount, this.refundRate(refund.proof));
+      byRecipient.set(recipient, transfer);
+    }
+
+    // Nothing to send for amounts below one base unit
+    const transfers = Array.from(byRecipient.values()).filter(({ units }) => units > 0n);
+    const unpayable = Array.from(byRecipient.values()).filter(({ units }) => units <= 0n).flatMap(({ refunds }) => refunds);
+    if (transfers.length === 0) return unpayable;
+
+    this.log(`Issuing ${this.config.chainName} batch refund`, {
+      refunds: refunds.length,
+      recipients: transfers.length,
+      token: this.config.erc20Token,
+    });
+
+    if (this.config.erc20Token) {
+      // The merchant's tokens can only move in its own transfer() calls
+      const failed: BatchRefund[] = [...unpayable];
+      for (const { refunds: paidFor, recipient, units } of transfers) {
+        try {
+          await this.issueTokenRefund(recipient, units);
+        } catch (error: any) {
+          this.log('❌ Token refund in batch failed:', error.message);
+          failed.push(...paidFor);
+        }
+      }
+      return failed;
+    }
+
+    const total = transfers.reduce((sum, { units }) => sum + units, 0n);
+    const multicall = new ethers.Contract(
+      this.config.multicallAddress,
+      ['function aggregate3Value((address target, bool allowFailure, uint256 value, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)'],
+      this.wallet
+    );
+
+    // allowFailure must stay false: value sent to a failed call would be left in Multicall3
+    const calls = transfers.map(({ recipient, units }) => ({
+      target: recipient,
+      allowFailure: false,
+      value: units,
+      callData: '0x',
+    }));
+
+    const balance = await this.provider.getBalance(this.wallet.address);
+    if (balance < total) {
+      throw new Error(`Insufficient ${this.config.nativeCurrency} in merchant wallet for batch refund`);
+    }
+
+    this.log('⏳ Sending batch refund transaction, waiting for confirmation...', {
+      recipients: transfers.length,
+      total: ethers.formatEther(total) + ' ' + this.config.nativeCurrency,
+    });
+
+    const receipt = await this.sender!.send(
+      await multicall.aggregate3Value.populateTransaction(calls, { value: total })
+    );
+
+    if (!receipt || receipt.status !== 1) {
+      throw new Error('Batch refund transaction failed');
+    }
+
+    this.log('✅ Batch refund confirmed!', {
+      txHash: receipt.hash,
+      explorer: this.explorerTxUrl(receipt.hash),
+      blockNumber: receipt.blockNumber,
+      gasUsed: receipt.gasUsed.toString(),
+    });
+
+    return unpayable;
+  }
+
+  /**
+   * Wait for the transaction to reach the required confirmations and check what it paid
+   * Resolves invalid instead of throwing if it reverts, is replaced or times out.
+   */
+  private async confirmTransaction(
+    tx: ethers.TransactionResponse,
+    pending: { amount: number; amountETH: string; amountUnits: bigint },
+    confirmations: number,
+    timeout?: number
+  ): Promise<PaymentVerification & { sender?: string }> {
+    try {
+      const receipt = await tx.wait(confirmations, timeout);
+
+      if (!receipt || receipt.status !== 1) {
+        return {
+          valid: false,
+          amount: 0,
+          reason: 'Transaction failed or not confirmed',
+        };
+      }
+
+      if (this.config.erc20Token) {
+        return await this.verifyERC20Transfer(receipt, pending);
+      }
+
+      const seen = this.verifyPendingTransaction(tx, pending);
+      return seen.valid ? { ...seen, sender: tx.from } : seen;
+
+    } catch (error: any) {
+      this.log('Transaction confirmation failed', { txHash: tx.hash, error: error.message });
+      return {
+        valid: false,
+        amount: 0,
+        reason: `Transaction not confirmed: ${error.shortMessage || error.message}`,
+      };
+    }
+  }
+
+  /**
+   * Check an unmined transaction pays the merchant: a native transfer, or the
+   * token's transfer() call decoded from calldata (the reference is appended after it)
+   */
+  private verifyPendingTransaction(
+    tx: ethers.TransactionResponse,
+    pending: { amount: number; amountETH: string; amountUnits: bigint }
+  ): PaymentVerification {
+    let recipient: string | null = null;
+    let expected: bigint;
+    let received: bigint;
+
+    if (this.config.erc20Token) {
+      if (tx.to?.toLowerCase() !== this.config.erc20Token.toLowerCase()) {
+        return { valid: false, amount: 0, reason: 'Transaction is not a call to the payment token' };
+      }
+
+      const call = ERC20_INTERFACE.parseTransaction({ data: tx.data });
+      if (call?.name !== 'transfer') {
+        return { valid: false, amount: 0, reason: 'Transaction is not a token transfer' };
+      }
+
+      recipient = call.args[0];
+      expected = pending.amountUnits;
+      received = call.args[1];
+    } else {
+      recipient = tx.to;
+      expected = ethers.parseEther(pending.amountETH);
+      received = tx.value;
+    }
+
+    if (recipient?.toLowerCase() !== this.merchantWallet.toLowerCase()) {
+      return {
+        valid: false,
+        amount: 0,
+        reason: 'Payment sent to wrong address',
+      };
+    }
+
+    if (!this.withinVariance(expected, received)) {
+      return {
+        valid: false,
+        amount: 0,
+        reason: this.config.erc20Token
+          ? `Amount mismatch. Expected: ${expected} token units, Received: ${received} token units`
+          : `Amount mismatch. Expected: ${ethers.formatEther(expected)} ${this.config.nativeCurrency}, Received: ${ethers.formatEther(received)} ${this.config.nativeCurrency}`,
+      };
+    }
+
+    return {
+      valid: true,
+      amount: pending.amount,
+    };
+  }
+
+  /**
+   * Confirmations required for an amount under the finality policy
+   */
+  private confirmationsFor(amount: number): number {
+    const tier = this.finality.tiers.find(tier => amount <= tier.maxAmount);
+    return tier ? tier.finality : this.finality.default;
+  }
+
+  /**
+   * Verify ERC20 token transfer
+   * Decodes the Transfer log to the merchant and checks the transferred value
+   */
+  private async verifyERC20Transfer(
+    receipt: ethers.TransactionReceipt,
+    pending: { amount: number; amountUnits: bigint }
+  ): Promise<PaymentVerification & { sender?: string }> {
+    if (!this.config.erc20Token) {
+      return {
+        valid: false,
+        amount: 0,
+        reason: 'No ERC20 token configured',
+      };
+    }
+
+    // ERC20 Transfer event signature
+    const transferEventSignature = ethers.id('Transfer(address,address,uint256)');
+
+    // Find Transfer event from the token to the merchant
+    const transferLog = receipt.logs.find(log => 
+      log.topics[0] === transferEventSignature &&
+      log.topics.length === 3 &&
+      log.address.toLowerCase() === this.config.erc20Token!.toLowerCase() &&
+      ethers.getAddress('0x' + log.topics[2].slice(26)).toLowerCase() === this.merchantWallet.toLowerCase()
+    );
+
+    if (!transferLog) {
+      return {
+        valid: false,
+        amount: 0,
+        reason: 'No token transfer to merchant found in transaction',
+      };
+    }
+
+    // Decode the transfer event: from is indexed, value is the log data
+    const fromAddress = ethers.getAddress('0x' + transferLog.topics[1].slice(26));
+    const receivedUnits = BigInt(transferLog.data);
+    const decimals = await this.getTokenDecimals();
+
+    if (!this.withinVariance(pending.amountUnits, receivedUnits)) {
+      return {
+        valid: false,
+        amount: 0,
+        reason: `Amount mismatch. Expected: ${ethers.formatUnits(pending.amountUnits, decimals)} tokens, Received: ${ethers.formatUnits(receivedUnits, decimals)} tokens`,
+      };
+    }
+
+    return {
+      valid: true,
+      amount: pending.amount,
+      sender: fromAddress,
+    };
+  }
+
+  /**
+   * Get token decimals, reading them from the token contract once
+   */
+  private async getTokenDecimals(): Promise<number> {
+    if (this.tokenDecimals !== undefined) return this.tokenDecimals;
+
+    const token = new ethers.Contract(
+      this.config.erc20Token!,
+      ['function decimals() view returns (uint8)'],
+      this.provider
+    );
+    this.tokenDecimals = Number(await token.decimals());
+    return this.tokenDecimals;
+  }
+
+  /**
+   * Check a received amount is within 1% of the expected amount
+   */
+  private withinVariance(expected: bigint, received: bigint): boolean {
+    const variance = received > expected 
+      ? received - expected 
+      : expected - received;
+    return variance <= expected / BigInt(100);
+  }
+
+  /**
+   * Check that transaction calldata ends with the reference bytes
+   * (the whole calldata for native transfers, appended to transfer() for ERC20)
+   */
+  private hasReference(txData: string, referenceData: string): boolean {
+    return txData.toLowerCase().endsWith(referenceData.slice(2).toLowerCase());
+  }
+
+  /**
+   * Conversion rate a payment was quoted at (locked in the proof at verification)
+   */
+  private refundRate(proof: any): number {
+    return proof?.conversionRate || this.unitRate();
+  }
+
+  /**
+   * Chain base units (wei or token units) an amount converts to, rounded down
+   * Computed as bigint: wei amounts pass Number.MAX_SAFE_INTEGER from about 0.009 ETH.
+   */
+  private toBaseUnits(amount: number, conversionRate: number): bigint {
+    return BigInt(new BigNumber(amount).dividedBy(conversionRate).integerValue(BigNumber.ROUND_FLOOR).toFixed());
+  }
+
+  /**
+   * Configured conversion rate per chain base unit
+   * ERC20 rates are per whole token, so they are scaled down by the token's decimals.
+   */
+  private unitRate(): number {
+    if (!this.config.erc20Token) {
+      return this.config.conversionRate;
+    }
+    if (this.tokenDecimals === undefined) {
+      throw new Error('ERC20 token decimals not loaded yet - set erc20Decimals to quote immediately');
+    }
+
+    return this.config.conversionRate / Math.pow(10, this.tokenDecimals);
+  }
+
+  /**
+   * Generate unique reference for payment tracking
+   */
+  private generateReference(): string {
+    return `${this.paymentType}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  /**
+   * Validate amount is positive
+   */
+  private validateAmount(amount: number): void {
+    if (amount <= 0) {
+      throw new Error('Amount must be positive');
+    }
+  }
+
+  /**
+   * Log payment activity
+   */
+  private log(message: string, data?: any): void {
+    console.log(`[${this.constructor.name}] ${message}`, data || '');
+  }
+
+  /**
+   * Get pending payment info
+   */
+  getPendingPayment(reference: string) {
+    return this.pendingPayments.get(reference);
+  }
+
+  /**
+   * Clean up expired pending payments
+   */
+  cleanupExpiredPayments(): number {
+    const now = Date.now();
+    let cleaned = 0;
+
+    for (const [reference, payment] of this.pendingPayments.entries()) {
+      if (now - payment.timestamp > this.config.paymentTimeout) {
+        this.pendingPayments.delete(reference);
+        cleaned++;
+      }
+    }
+
+    if (cleaned > 0) {
+      this.log(`Cleaned up ${cleaned} expired pending payments`);
+    }
+
+    return cleaned;
+  }
+
+  /**
+   * Build explorer link for a transaction, if a template is configured
+   */
+  private explorerTxUrl(txHash: string): string | undefined {
+    return this.config.explorerTxUrl?.replace('{txHash}', txHash);
+  }
+
+  /**
+   * Build explorer link for an address, if a template is configured
+   */
+  private explorerAddressUrl(address: string): string | undefined {
+    return this.config.explorerAddressUrl?.replace('{address}', address);
+  }
+
+  /**
+   * Get connection info
+   */
+  getConnectionInfo() {
+    return {
+      rpcEndpoint: this.config.rpcEndpoint,
+      network: this.config.network,
+      chainId: this.config.chainId,
+      chainName: this.config.chainName,
+      nativeCurrency: this.config.nativeCurrency,
+      confirmations: this.config.confirmations,
+      merchantWallet: this.merchantWallet,
+      erc20Token: this.config.erc20Token,
+      autoRefundEnabled: this.config.autoRefund && !!this.wallet,
+      walletConnected: !!this.wallet,
+    };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,225 @@
+// src/providers/EvmTransactionSender.ts
+import { ethers } from 'ethers';
+
+export interface EvmTransactionSenderConfig {
+  /** Ms a transaction may stay unmined before it is replaced with higher fees (default: 60000) */
+  stuckTimeout?: number;
+
+  /** Percentage fees are raised by on each replacement - nodes require at least 10 (default: 15) */
+  gasBumpPercent?: number;
+
+  /** Replacements sent before waiting on the last one indefinitely (default: 3) */
+  maxGasBumps?: number;
+
+  /** Ms between receipt checks (default: 2000) */
+  pollInterval?: number;
+
+  /** Times a broadcast is retried after resyncing a stale nonce (default: 3) */
+  maxNonceRetries?: number;
+}
+
+interface Fees {
+  gasPrice?: bigint;
+  maxFeePerGas?: bigint;
+  maxPriorityFeePerGas?: bigint;
+}
+
+/**
+ * Serialized transaction sender for one EVM wallet
+ *
+ * Transactions are broadcast one at a time, in call order, with nonces tracked
+ * locally, so concurrent sends from the same key never collide. Each send then
+ * waits for its receipt on its own: a transaction still unmined after
+ * `stuckTimeout` is replaced (same nonce) with bumped fees, and whichever
+ * version is mined settles it. A nonce the node reports as used resyncs the
+ * local nonce from the chain and the broadcast is retried.
+ */
+export class EvmTransactionSender {
+  private wallet: ethers.Wallet;
+  private provider: ethers.Provider;
+  private config: Required<EvmTransactionSenderConfig>;
+  private nextNonce: number | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(wallet: ethers.Wallet, config: EvmTransactionSenderConfig = {}) {
+    if (!wallet.provider) {
+      throw new Error('Wallet must be connected to a provider');
+    }
+
+    this.wallet = wallet;
+    this.provider = wallet.provider;
+    this.config = {
+      stuckTimeout: config.stuckTimeout || 60000, // 1 minute
+      gasBumpPercent: Math.max(config.gasBumpPercent || 15, 10),
+      maxGasBumps: config.maxGasBumps ?? 3,
+      pollInterval: config.pollInterval || 2000,
+      maxNonceRetries: config.maxNonceRetries ?? 3,
+    };
+  }
+
+  /**
+   * Send a transaction and wait until it (or a replacement) is mined
+   * Resolves with the receipt - check its status; throws if the nonce is
+   * taken by a transaction sent elsewhere.
+   */
+  async send(request: ethers.TransactionRequest): Promise<ethers.TransactionReceipt> {
+    const broadcast = this.queue.then(() => this.broadcast(request));
+    this.queue = broadcast.catch(() => {});
+
+    const { tx, fees } = await broadcast;
+    return this.confirm(request, tx, fees);
+  }
+
+  /**
+   * Broadcast with the next local nonce, resyncing it from the chain when the node rejects it
+   */
+  private async broadcast(
+    request: ethers.TransactionRequest
+  ): Promise<{ tx: ethers.TransactionResponse; fees: Fees }> {
+    for (let attempt = 0; ; attempt++) {
+      if (this.nextNonce === null) {
+        this.nextNonce = await this.provider.getTransactionCount(this.wallet.address, 'pending');
+      }
+
+      const nonce = this.nextNonce;
+      const fees = await this.currentFees();
+
+      try {
+        const tx = await this.wallet.sendTransaction({ ...request, ...fees, nonce });
+        this.nextNonce = nonce + 1;
+
+        this.log('📤 Transaction sent', { txHash: tx.hash, nonce });
+        return { tx, fees };
+
+      } catch (error: any) {
+        // Whatever happened, the chain knows the right nonce better than we do
+        this.nextNonce = null;
+
+        const staleNonce = error.code === 'NONCE_EXPIRED' || error.code === 'REPLACEMENT_UNDERPRICED';
+        if (!staleNonce || attempt >= this.config.maxNonceRetries) {
+          throw error;
+        }
+
+        this.log('⚠️  Nonce already used, resyncing from chain', { nonce, code: error.code });
+      }
+    }
+  }
+
+  /**
+   * Wait for the transaction or one of its replacements to be mined,
+   * bumping fees each time it stays unmined for stuckTimeout
+   */
+  private async confirm(
+    request: ethers.TransactionRequest,
+    tx: ethers.TransactionResponse,
+    fees: Fees
+  ): Promise<ethers.TransactionReceipt> {
+    const hashes = [tx.hash];
+
+    for (let bumps = 0; ; bumps++) {
+      const deadline = bumps < this.config.maxGasBumps ? Date.now() + this.config.stuckTimeout : Infinity;
+      const receipt = await this.waitForReceipt(hashes, tx.nonce, deadline);
+      if (receipt) return receipt;
+
+      fees = await this.bumpFees(fees);
+
+      try {
+        const replacement = await this.wallet.sendTransaction({ ...request, ...fees, nonce: tx.nonce });
+        hashes.push(replacement.hash);
+
+        this.log('⛽ Stuck transaction replaced with higher fees', {
+          nonce: tx.nonce,
+          txHash: replacement.hash,
+          replaces: hashes[hashes.length - 2],
+          ...this.formatFees(fees),
+        });
+      } catch (error: any) {
+        // Mined meanwhile (NONCE_EXPIRED) or not bumped enough yet - keep waiting either way
+        this.log('⚠️  Replacement not accepted', { nonce: tx.nonce, code: error.code, error: error.message });
+      }
+    }
+  }
+
+  /**
+   * Poll for a receipt of any of the hashes until the deadline
+   * Throws if the nonce was mined by a transaction that is not one of them.
+   */
+  private async waitForReceipt(
+    hashes: string[],
+    nonce: number,
+    deadline: number
+  ): Promise<ethers.TransactionReceipt | null> {
+    while (Date.now() < deadline) {
+      const receipt = await this.findReceipt(hashes);
+      if (receipt) return receipt;
+
+      const minedNonce = await this.provider.getTransactionCount(this.wallet.address, 'latest');
+      if (minedNonce > nonce) {
+        // Mined between the two calls, or replaced outside this sender
+        const late = await this.findReceipt(hashes);
+        if (late) return late;
+
+        throw new Error(`Nonce ${nonce} was used by another transaction`);
+      }
+
+      await new Promise(resolve => setTimeout(resolve, this.config.pollInterval));
+    }
+
+    return null;
+  }
+
+  private async findReceipt(hashes: string[]): Promise<ethers.TransactionReceipt | null> {
+    for (const hash of hashes) {
+      const receipt = await this.provider.getTransactionReceipt(hash);
+      if (receipt) return receipt;
+    }
+    return null;
+  }
+
+  /**
+   * Fees for a new transaction, from the node's current fee data
+   */
+  private async currentFees(): Promise<Fees> {
+    const feeData = await this.provider.getFeeData();
+
+    if (feeData.maxFeePerGas !== null && feeData.maxPriorityFeePerGas !== null) {
+      return { maxFeePerGas: feeData.maxFeePerGas, maxPriorityFeePerGas: feeData.maxPriorityFeePerGas };
+    }
+    return { gasPrice: feeData.gasPrice ?? undefined };
+  }
+
+  /**
+   * Raise fees by gasBumpPercent, or to the current network fees if those are higher
+   */
+  private async bumpFees(fees: Fees): Promise<Fees> {
+    const current = await this.currentFees();
+    const bump = (value?: bigint, floor?: bigint): bigint | undefined => {
+      if (value === undefined) return floor;
+      const bumped = value * BigInt(100 + this.config.gasBumpPercent) / 100n + 1n;
+      return floor !== undefined && floor > bumped ? floor : bumped;
+    };
+
+    if (fees.maxFeePerGas !== undefined) {
+      return {
+        maxFeePerGas: bump(fees.maxFeePerGas, current.maxFeePerGas),
+        maxPriorityFeePerGas: bump(fees.maxPriorityFeePerGas, current.maxPriorityFeePerGas),
+      };
+    }
+    return { gasPrice: bump(fees.gasPrice, current.gasPrice) };
+  }
+
+  private formatFees(fees: Fees): Record<string, string> {
+    return Object.fromEntries(
+      Object.entries(fees)
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => [key, ethers.formatUnits(value!, 'gwei') + ' gwei'])
+    );
+  }
+
+  /**
+   * Log transaction activity
+   */
+  private log(message: string, data?: any): void {
+    console.log(`[EvmTransactionSender] ${message}`, data || '');
+  }
+}
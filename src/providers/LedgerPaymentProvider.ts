@@ -0,0 +1,308 @@
+// src/providers/LedgerPaymentProvider.ts
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { LedgerAccount, LedgerEntry, LedgerStore, PaymentProvider, PaymentVerification } from '../types';
+import { MemoryLedgerStore } from '../stores/MemoryLedgerStore';
+import { ManualRefundRequiredError } from '../errors';
+
+export interface LedgerPaymentProviderConfig {
+  /** Chain provider that takes deposits and pays out withdrawals */
+  depositProvider: PaymentProvider;
+
+  /** Store holding account balances (default: in-memory) */
+  store?: LedgerStore;
+
+  /** Smallest amount that can be withdrawn on-chain (default: 0) */
+  minWithdrawal?: number;
+}
+
+/**
+ * Prepaid credit ledger Payment Provider for WS402
+ *
+ * Users hold a credit balance, funded by deposits through a wrapped chain
+ * provider. Sessions are paid from the balance and unused balance is credited
+ * back instantly, with no on-chain refund; credit leaves the ledger only
+ * through an explicit withdrawal.
+ *
+ * Proofs:
+ * - `{ accountId, accountToken, amount }` - pay from the account balance
+ * - `{ accountId, accountToken, deposit }` - pay with an on-chain deposit proof
+ *   for the wrapped provider; unused balance is credited to the account
+ *
+ * The account token is removed from a proof once it is verified, so it is not
+ * persisted with sessions or refunds.
+ */
+export class LedgerPaymentProvider implements PaymentProvider {
+  private depositProvider: PaymentProvider;
+  private store: LedgerStore;
+  private config: {
+    minWithdrawal: number;
+  };
+
+  constructor(config: LedgerPaymentProviderConfig) {
+    this.depositProvider = config.depositProvider;
+    this.store = config.store || new MemoryLedgerStore();
+    this.config = {
+      minWithdrawal: config.minWithdrawal || 0,
+    };
+  }
+
+  /**
+   * Create a credit account
+   * The returned token authorizes spending and withdrawals - hand it to the account owner only.
+   */
+  async createAccount(accountId?: string): Promise<{ accountId: string; accountToken: string }> {
+    const id = accountId || `acct_${randomBytes(12).toString('hex')}`;
+    const accountToken = randomBytes(24).toString('hex');
+
+    const created = await this.store.createAccount({
+      accountId: id,
+      balance: 0,
+      tokenHash: this.hashToken(accountToken),
+      createdAt: Date.now(),
+    });
+
+    if (!created) {
+      throw new Error(`Account already exists: ${id}`);
+    }
+
+    this.log('👤 Account created', { accountId: id });
+    return { accountId: id, accountToken };
+  }
+
+  /**
+   * Get the current balance of an account
+   */
+  async getBalance(accountId: string): Promise<number> {
+    const account = await this.store.getAccount(accountId);
+    if (!account) {
+      throw new Error(`Account not found: ${accountId}`);
+    }
+    return account.balance;
+  }
+
+  /**
+   * List the balance changes of an account
+   */
+  async getEntries(accountId: string): Promise<LedgerEntry[]> {
+    return this.store.listEntries(accountId);
+  }
+
+  /**
+   * Credit an on-chain deposit to an account without opening a session
+   */
+  async deposit(accountId: string, accountToken: string, proof: any): Promise<LedgerEntry> {
+    await this.authenticate(accountId, accountToken);
+
+    const verification = await this.depositProvider.verifyPayment(proof);
+    if (!verification.valid) {
+      throw new Error(verification.reason || 'Invalid deposit');
+    }
+
+    const entry = await this.store.adjustBalance(accountId, verification.amount, 'deposit');
+    if (!entry) {
+      throw new Error(`Account not found: ${accountId}`);
+    }
+
+    this.log('📥 Deposit credited', { accountId, amount: verification.amount, balance: entry.balance });
+    return entry;
+  }
+
+  /**
+   * Pay credit out on-chain through the deposit provider
+   * Resolves once the payout is made. If it fails, or the provider will not pay
+   * it automatically (ManualRefundRequiredError), the credit is restored and the
+   * error rethrown.
+   * @param recipient - Address the deposit provider pays to (a wallet address, or an invoice or Lightning address)
+   */
+  async withdraw(accountId: string, accountToken: string, amount: number, recipient: string): Promise<LedgerEntry> {
+    await this.authenticate(accountId, accountToken);
+    this.validateAmount(amount);
+
+    if (amount < this.config.minWithdrawal) {
+      throw new Error(`Minimum withdrawal is ${this.config.minWithdrawal}`);
+    }
+    if (typeof recipient !== 'string' || !recipient) {
+      throw new Error('Recipient address required');
+    }
+    if (!this.depositProvider.payoutProof) {
+      throw new Error('Deposit provider does not support withdrawals');
+    }
+
+    // Built by the provider from the address alone: a proof from the caller could carry its own conversion rate
+    const destination = await this.depositProvider.payoutProof(recipient);
+
+    const entry = await this.store.adjustBalance(accountId, -amount, 'withdrawal');
+    if (!entry) {
+      throw new Error('Insufficient balance');
+    }
+
+    try {
+      await this.depositProvider.issueRefund(destination, amount);
+    } catch (error: any) {
+      // Nothing was paid out - put the credit back
+      await this.store.adjustBalance(accountId, amount, 'credit');
+      this.log(
+        error instanceof ManualRefundRequiredError
+          ? '⚠️  Withdrawal cannot be paid automatically, balance restored:'
+          : '❌ Withdrawal failed, balance restored:',
+        error.message
+      );
+      throw error;
+    }
+
+    this.log('📤 Withdrawal paid', { accountId, amount, balance: entry.balance });
+    return entry;
+  }
+
+  /**
+   * Payment details: pay from the account balance, or deposit through the chain provider
+   */
+  generatePaymentDetails(amount: number): any {
+    this.validateAmount(amount);
+
+    return this.paymentDetails(amount, this.depositProvider.generatePaymentDetails(amount));
+  }
+
+  /**
+   * Payment details, letting the deposit provider create its details asynchronously
+   */
+  async requestPaymentDetails(amount: number, resourceId?: string, estimatedDuration?: number): Promise<any> {
+    this.validateAmount(amount);
+
+    const deposit = this.depositProvider.requestPaymentDetails
+      ? await this.depositProvider.requestPaymentDetails(amount, resourceId, estimatedDuration)
+      : this.depositProvider.generatePaymentDetails(amount);
+
+    return this.paymentDetails(amount, deposit);
+  }
+
+  /**
+   * Verify a balance payment (debiting the account) or a deposit
+   */
+  async verifyPayment(proof: any): Promise<PaymentVerification> {
+    try {
+      const { accountId, accountToken } = proof || {};
+      await this.authenticate(accountId, accountToken);
+
+      // The proof is kept with the session and its refunds - never store the credential
+      delete proof.accountToken;
+
+      if (proof.deposit) {
+        const verification = await this.depositProvider.verifyPayment(proof.deposit);
+        if (!verification.valid) return verification;
+
+        // Recorded as a deposit drawn in full by the session; what is left is credited back at the end
+        await this.store.adjustBalance(accountId, verification.amount, 'deposit');
+        await this.store.adjustBalance(accountId, -verification.amount, 'debit');
+
+        this.log('Deposit verified', { accountId, amount: verification.amount });
+        return verification;
+      }
+
+      const amount = proof.amount;
+      if (typeof amount !== 'number' || !Number.isFinite(amount) || amount <= 0) {
+        return {
+          valid: false,
+          amount: 0,
+          reason: 'Amount must be a positive number',
+        };
+      }
+
+      const entry = await this.store.adjustBalance(accountId, -amount, 'debit');
+      if (!entry) {
+        return {
+          valid: false,
+          amount: 0,
+          reason: 'Insufficient balance',
+        };
+      }
+
+      this.log('Balance debited', { accountId, amount, balance: entry.balance });
+
+      return {
+        valid: true,
+        amount,
+      };
+
+    } catch (error: any) {
+      this.log('Payment verification error', error.message);
+      return {
+        valid: false,
+        amount: 0,
+        reason: error.message,
+      };
+    }
+  }
+
+  /**
+   * Refund by crediting the account - instant, no on-chain transaction
+   */
+  async issueRefund(proof: any, amount: number): Promise<void> {
+    const accountId = proof?.accountId;
+
+    const entry = await this.store.adjustBalance(accountId, amount, 'credit');
+    if (!entry) {
+      throw new Error(`Account not found: ${accountId}`);
+    }
+
+    this.log('💰 Refund credited', { accountId, amount, balance: entry.balance });
+  }
+
+  /**
+   * Wrap the deposit provider's details with ledger payment instructions
+   */
+  private paymentDetails(amount: number, deposit: any): any {
+    return {
+      type: 'ledger',
+      amount,
+      deposit,
+      instructions: {
+        step1: 'Pay from your credit balance: send accountId, accountToken and amount as payment proof',
+        step2: 'Or pay the deposit details and send accountId, accountToken and the deposit proof',
+        step3: 'Unused balance is credited to your account when the session ends',
+      },
+    };
+  }
+
+  /**
+   * Check an account token against the stored hash
+   */
+  private async authenticate(accountId: any, accountToken: any): Promise<LedgerAccount> {
+    if (typeof accountId !== 'string' || typeof accountToken !== 'string') {
+      throw new Error('Account ID and token required');
+    }
+
+    const account = await this.store.getAccount(accountId);
+    const expected = Buffer.from(account?.tokenHash || '', 'hex');
+    const actual = Buffer.from(this.hashToken(accountToken), 'hex');
+
+    if (!account || expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      throw new Error('Invalid account credentials');
+    }
+
+    return account;
+  }
+
+  /**
+   * Tokens are stored hashed, so a leaked store cannot be used to spend
+   */
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  /**
+   * Validate amount is positive
+   */
+  private validateAmount(amount: number): void {
+    if (amount <= 0) {
+      throw new Error('Amount must be positive');
+    }
+  }
+
+  /**
+   * Log ledger activity
+   */
+  private log(message: string, data?: any): void {
+    console.log(`[LedgerPaymentProvider] ${message}`, data || '');
+  }
+}
@@ -0,0 +1,611 @@
+// src/providers/LightningPaymentProvider.ts
+import { createHash } from 'crypto';
+import { lookup, LookupAddress, LookupOptions } from 'dns';
+import { request as httpsRequest } from 'https';
+import { BlockList, isIP } from 'net';
+import { PaymentProvider, PaymentVerification } from '../types';
+import { ManualRefundRequiredError } from '../errors';
+
+export interface LightningPaymentProviderConfig {
+  /** LND REST endpoint URL (e.g. https://localhost:8080) */
+  restEndpoint: string;
+
+  /** Hex-encoded macaroon (invoice macaroon for payments, admin macaroon for refunds) */
+  macaroon?: string;
+
+  /** Conversion rate: millisatoshis to native units */
+  conversionRate?: number;
+
+  /** Invoice expiry in milliseconds */
+  paymentTimeout?: number;
+
+  /** Invoice description */
+  memo?: string;
+
+  /** Maximum routing fee paid per refund, in millisatoshis */
+  refundFeeLimitMsat?: number;
+
+  /** Request timeout in milliseconds */
+  requestTimeout?: number;
+
+  /** Enable automatic refunds (requires a macaroon allowed to send payments) */
+  autoRefund?: boolean;
+}
+
+const BECH32_CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+
+// Addresses LNURL requests may not reach: private, loopback, link-local and other non-public ranges
+// (IPv4-mapped IPv6 addresses are matched against the IPv4 ranges)
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * DNS lookup for LNURL connections that fails unless every address is public
+ * Used as the socket's own lookup, so the checked address is the one connected to.
+ */
+function lookupPublic(
+  hostname: string,
+  options: LookupOptions,
+  callback: (error: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void
+): void {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '');
+      return;
+    }
+
+    const blocked = addresses.length === 0 || addresses.some(({ address, family }) =>
+      BLOCKED_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4')
+    );
+    if (blocked) {
+      callback(new Error(`LNURL endpoint resolves to a non-public address: ${hostname}`), '');
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+}
+
+/**
+ * Lightning Network Payment Provider for WS402
+ *
+ * Talks to an LND node over its REST API.
+ *
+ * Supports:
+ * - BOLT11 invoices for each payment
+ * - Verification by preimage or invoice settlement
+ * - Refunds to an amountless BOLT11 invoice, a Lightning address or an LNURL-pay link
+ *
+ * Invoices are created on the node, so payment details must be requested
+ * asynchronously: serve schemas with `ws402.requestSchema()`.
+ */
+export class LightningPaymentProvider implements PaymentProvider {
+  private config: Required<Omit<LightningPaymentProviderConfig, 'macaroon'>> & {
+    macaroon?: string;
+  };
+  private pendingPayments: Map<string, {
+    amount: number;
+    amountMsat: bigint;
+    paymentRequest: string;
+    timestamp: number;
+  }>;
+
+  constructor(config: LightningPaymentProviderConfig) {
+    this.config = {
+      restEndpoint: config.restEndpoint.replace(/\/$/, ''), // Remove trailing slash
+      macaroon: config.macaroon,
+      conversionRate: config.conversionRate || 1,
+      paymentTimeout: config.paymentTimeout || 600000, // 10 minutes
+      memo: config.memo || 'WS402 Payment',
+      refundFeeLimitMsat: config.refundFeeLimitMsat ?? 10000, // 10 sats
+      requestTimeout: config.requestTimeout || 30000, // 30 seconds
+      autoRefund: config.autoRefund !== false, // Default true
+    };
+
+    this.pendingPayments = new Map();
+
+    if (!config.macaroon) {
+      this.log('⚠️  No macaroon provided - node must accept unauthenticated requests');
+    }
+  }
+
+  /**
+   * Invoices can only be created on the node - use requestPaymentDetails
+   */
+  generatePaymentDetails(amount: number): any {
+    this.validateAmount(amount);
+    throw new Error('Lightning invoices are created asynchronously - use ws402.requestSchema()');
+  }
+
+  /**
+   * Create a BOLT11 invoice for the amount on the Lightning node
+   */
+  async requestPaymentDetails(amount: number): Promise<any> {
+    this.validateAmount(amount);
+
+    const amountMsat = this.toMsat(amount);
+    if (amountMsat <= 0n) {
+      throw new Error('Amount is below 1 millisatoshi');
+    }
+
+    const invoice = await this.request('POST', '/v1/invoices', {
+      value_msat: amountMsat.toString(),
+      memo: this.config.memo,
+      expiry: Math.ceil(this.config.paymentTimeout / 1000).toString(),
+    });
+
+    const paymentHash = this.base64ToHex(invoice.r_hash);
+
+    this.pendingPayments.set(paymentHash, {
+      amount,
+      amountMsat,
+      paymentRequest: invoice.payment_request,
+      timestamp: Date.now(),
+    });
+
+    this.log('🧾 Invoice created', { paymentHash, amountMsat: amountMsat.toString() });
+
+    return {
+      type: 'lightning',
+      invoice: invoice.payment_request,
+      paymentHash,
+      reference: paymentHash,
+      amount,
+      amountMsat: amountMsat.toString(),
+      amountSat: (Number(amountMsat) / 1000).toString(),
+      expiresAt: Date.now() + this.config.paymentTimeout,
+      instructions: {
+        step1: 'Pay the BOLT11 invoice with any Lightning wallet',
+        step2: 'Submit the payment hash as reference, with the preimage, as payment proof',
+        step3: 'Include an amountless refundInvoice, or a refundAddress (Lightning address or LNURL-pay), to receive refunds',
+      },
+    };
+  }
+
+  /**
+   * Verify payment by preimage, falling back to the invoice settlement state
+   */
+  async verifyPayment(proof: any): Promise<PaymentVerification> {
+    try {
+      const reference = proof?.reference || proof?.paymentHash;
+
+      if (!reference) {
+        return {
+          valid: false,
+          amount: 0,
+          reason: 'Missing payment hash',
+        };
+      }
+
+      this.log('Verifying Lightning payment', { reference });
+
+      const pending = this.pendingPayments.get(reference);
+      if (!pending) {
+        return {
+          valid: false,
+          amount: 0,
+          reason: 'Payment reference not found or expired',
+        };
+      }
+
+      if (proof.preimage) {
+        // Only the node that settled the invoice reveals its preimage to the payer
+        if (this.sha256Hex(proof.preimage) !== reference) {
+          return {
+            valid: false,
+            amount: 0,
+            reason: 'Preimage does not match payment hash',
+          };
+        }
+      } else {
+        const invoice = await this.request('GET', `/v1/invoice/${reference}`);
+
+        if (invoice.state !== 'SETTLED') {
+          return {
+            valid: false,
+            amount: 0,
+            reason: `Invoice not settled (state: ${invoice.state})`,
+          };
+        }
+
+        if (BigInt(invoice.amt_paid_msat || '0') < pending.amountMsat) {
+          return {
+            valid: false,
+            amount: 0,
+            reason: `Amount mismatch. Expected: ${pending.amountMsat} msat, Received: ${invoice.amt_paid_msat} msat`,
+          };
+        }
+      }
+
+      // Clean up pending payment
+      this.pendingPayments.delete(reference);
+
+      this.log('Payment verified successfully', {
+        reference,
+        amount: pending.amount,
+        amountMsat: pending.amountMsat.toString(),
+      });
+
+      return {
+        valid: true,
+        amount: pending.amount,
+      };
+
+    } catch (error: any) {
+      this.log('Payment verification error', error.message);
+      return {
+        valid: false,
+        amount: 0,
+        reason: `Verification error: ${error.message}`,
+      };
+    }
+  }
+
+  /**
+   * Issue refund by paying the client's refund invoice or Lightning address
+   */
+  async issueRefund(proof: any, amount: number): Promise<void> {
+    const amountMsat = this.toMsat(amount);
+
+    this.log('Issuing Lightning refund', {
+      amount,
+      amountMsat: amountMsat.toString(),
+      reference: proof?.reference,
+    });
+
+    if (amountMsat <= 0n) {
+      this.log('⚠️  Refund amount is below 1 millisatoshi - skipping');
+      throw new ManualRefundRequiredError(`Refund of ${amount} is below 1 millisatoshi`);
+    }
+
+    if (!this.config.autoRefund) {
+      this.log('⚠️  Automatic refunds disabled - manual refund required', {
+        amountMsat: amountMsat.toString(),
+        reference: proof?.reference,
+      });
+      throw new ManualRefundRequiredError('Automatic refunds disabled - manual refund required');
+    }
+
+    let paymentRequest: string;
+    let payAmountMsat: bigint | undefined;
+
+    if (proof?.refundInvoice) {
+      paymentRequest = proof.refundInvoice;
+      const decoded = await this.request('GET', `/v1/payreq/${paymentRequest}`);
+      const invoiceMsat = BigInt(decoded.num_msat || '0');
+
+      if (invoiceMsat === 0n) {
+        payAmountMsat = amountMsat;
+      } else if (invoiceMsat !== amountMsat) {
+        throw new Error(`Refund invoice is for ${invoiceMsat} msat, refund is ${amountMsat} msat - use an amountless invoice`);
+      }
+    } else if (proof?.refundAddress) {
+      paymentRequest = await this.fetchLnurlInvoice(proof.refundAddress, amountMsat);
+    } else {
+      throw new Error('Refund invoice or refund address required for refund');
+    }
+
+    const result = await this.request('POST', '/v1/channels/transactions', {
+      payment_request: paymentRequest,
+      amt_msat: payAmountMsat?.toString(),
+      fee_limit: { fixed_msat: this.config.refundFeeLimitMsat.toString() },
+    });
+
+    if (result.payment_error) {
+      throw new Error(`Refund payment failed: ${result.payment_error}`);
+    }
+
+    this.log('✅ Refund paid!', {
+      paymentHash: result.payment_hash ? this.base64ToHex(result.payment_hash) : undefined,
+      amountMsat: amountMsat.toString(),
+    });
+  }
+
+  /**
+   * Refund proof for a payout to an amountless invoice, a Lightning address or an LNURL-pay link
+   */
+  async payoutProof(recipient: string): Promise<any> {
+    const lnurl = recipient.includes('@') || /^lnurl/i.test(recipient) || /^https?:\/\//i.test(recipient);
+    return lnurl ? { refundAddress: recipient } : { refundInvoice: recipient };
+  }
+
+  /**
+   * Request an invoice for the amount from a Lightning address or LNURL-pay link
+   */
+  private async fetchLnurlInvoice(address: string, amountMsat: bigint): Promise<string> {
+    const url = this.checkLnurlHost(this.resolveLnurl(address));
+    const payRequest = await this.fetchLnurlJson(url);
+
+    if (payRequest.tag !== 'payRequest' || !payRequest.callback) {
+      throw new Error(payRequest.reason || 'Refund address is not an LNURL-pay endpoint');
+    }
+
+    if (amountMsat < BigInt(payRequest.minSendable) || amountMsat > BigInt(payRequest.maxSendable)) {
+      throw new Error(`Refund of ${amountMsat} msat is outside the range accepted by the refund address`);
+    }
+
+    const callback = this.checkLnurlHost(payRequest.callback);
+    callback.searchParams.set('amount', amountMsat.toString());
+    const invoice = await this.fetchLnurlJson(callback);
+
+    if (!invoice.pr) {
+      throw new Error(invoice.reason || 'Refund address did not return an invoice');
+    }
+
+    // Never pay more than the refund, whatever the LNURL service returned
+    const decoded = await this.request('GET', `/v1/payreq/${invoice.pr}`);
+    if (BigInt(decoded.num_msat || '0') !== amountMsat) {
+      throw new Error('Invoice from refund address does not match the refund amount');
+    }
+
+    return invoice.pr;
+  }
+
+  /**
+   * Turn a Lightning address (user@domain) or bech32 LNURL into its HTTPS URL
+   */
+  private resolveLnurl(address: string): string {
+    const value = address.trim().replace(/^lightning:/i, '');
+
+    if (value.includes('@')) {
+      const match = /^([a-z0-9._+-]+)@([a-z0-9.-]+)$/i.exec(value);
+      if (!match) {
+        throw new Error(`Invalid Lightning address: ${address}`);
+      }
+      return `https://${match[2]}/.well-known/lnurlp/${match[1]}`;
+    }
+
+    if (value.toLowerCase().startsWith('lnurl')) {
+      return Buffer.from(this.decodeBech32(value.toLowerCase())).toString('utf8');
+    }
+
+    if (/^https?:\/\//.test(value)) {
+      return value;
+    }
+
+    throw new Error(`Unsupported refund address: ${address}`);
+  }
+
+  /**
+   * Check an LNURL endpoint is HTTPS, and not on a non-public IP address
+   * Refund addresses come from clients, so they must not reach the server's own network.
+   * Host names are checked when connecting (see fetchLnurlJson).
+   */
+  private checkLnurlHost(value: string): URL {
+    const url = new URL(value);
+    if (url.protocol !== 'https:') {
+      throw new Error(`LNURL endpoint must use HTTPS: ${url.origin}`);
+    }
+
+    const host = url.hostname.replace(/^\[|\]$/g, '');
+    const family = isIP(host);
+    if (family && BLOCKED_ADDRESSES.check(host, family === 6 ? 'ipv6' : 'ipv4')) {
+      throw new Error(`LNURL endpoint resolves to a non-public address: ${url.hostname}`);
+    }
+
+    return url;
+  }
+
+  /**
+   * GET JSON from an LNURL endpoint, without following redirects
+   * The host is resolved once, by the socket, through lookupPublic: a host
+   * cannot pass the check with one address and be connected to at another.
+   */
+  private fetchLnurlJson(url: URL): Promise<any> {
+    return new Promise((resolve, reject) => {
+      const req = httpsRequest(url, { method: 'GET', lookup: lookupPublic, timeout: this.config.requestTimeout }, response => {
+        const chunks: Buffer[] = [];
+        response.on('data', chunk => chunks.push(chunk));
+        response.on('error', reject);
+        response.on('end', () => {
+          const status = response.statusCode || 0;
+          if (status >= 300 && status < 400) {
+            reject(new Error(`LNURL endpoint redirected (${status}) - redirects are not followed`));
+            return;
+          }
+
+          let data: any = {};
+          try {
+            data = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+          } catch (error) {
+            // Not JSON - reported by status below, or as a missing field by the caller
+          }
+
+          if (status < 200 || status >= 300) {
+            reject(new Error(data.reason || `Request returned ${status}: ${response.statusMessage}`));
+            return;
+          }
+          resolve(data);
+        });
+      });
+
+      req.on('timeout', () => req.destroy(new Error('LNURL request timed out')));
+      req.on('error', reject);
+      req.end();
+    });
+  }
+
+  /**
+   * Decode the data part of a bech32 string (LNURLs exceed the 90 character limit, so none is applied)
+   */
+  private decodeBech32(value: string): Uint8Array {
+    const separator = value.lastIndexOf('1');
+    const prefix = value.slice(0, separator);
+    const words = Array.from(value.slice(separator + 1)).map(char => {
+      const index = BECH32_CHARSET.indexOf(char);
+      if (index === -1) throw new Error('Invalid bech32 character');
+      return index;
+    });
+
+    const expanded = [
+      ...Array.from(prefix).map(char => char.charCodeAt(0) >> 5),
+      0,
+      ...Array.from(prefix).map(char => char.charCodeAt(0) & 31),
+    ];
+    if (separator < 1 || words.length < 6 || this.bech32Polymod([...expanded, ...words]) !== 1) {
+      throw new Error('Invalid bech32 checksum');
+    }
+
+    // Regroup 5-bit words into bytes
+    const bytes: number[] = [];
+    let accumulator = 0;
+    let bits = 0;
+    for (const word of words.slice(0, -6)) {
+      accumulator = (accumulator << 5) | word;
+      bits += 5;
+      if (bits >= 8) {
+        bits -= 8;
+        bytes.push((accumulator >> bits) & 0xff);
+      }
+    }
+
+    return Uint8Array.from(bytes);
+  }
+
+  /**
+   * Bech32 checksum polynomial
+   */
+  private bech32Polymod(values: number[]): number {
+    const generator = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+    let checksum = 1;
+
+    for (const value of values) {
+      const top = checksum >> 25;
+      checksum = ((checksum & 0x1ffffff) << 5) ^ value;
+      for (let i = 0; i < 5; i++) {
+        if ((top >> i) & 1) checksum ^= generator[i];
+      }
+    }
+
+    return checksum;
+  }
+
+  /**
+   * Make a request to the LND REST API
+   */
+  private async request(method: 'GET' | 'POST', path: string, body?: any): Promise<any> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    };
+    if (this.config.macaroon) {
+      headers['Grpc-Metadata-macaroon'] = this.config.macaroon;
+    }
+
+    return this.fetchJson(`${this.config.restEndpoint}${path}`, {
+      method,
+      headers,
+      body: body ? JSON.stringify(body) : undefined,
+    });
+  }
+
+  /**
+   * Fetch a JSON response with the configured timeout
+   */
+  private async fetchJson(url: string, init: RequestInit = {}): Promise<any> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.config.requestTimeout);
+
+    try {
+      const response = await fetch(url, { ...init, signal: controller.signal });
+      const data = await response.json().catch(() => ({})) as any;
+
+      if (!response.ok) {
+        throw new Error(data.message || data.error || `Request returned ${response.status}: ${response.statusText}`);
+      }
+
+      return data;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * Convert an amount in native units to millisatoshis
+   */
+  private toMsat(amount: number): bigint {
+    return BigInt(Math.floor(amount / this.config.conversionRate));
+  }
+
+  /**
+   * SHA-256 of a hex-encoded preimage, as hex
+   */
+  private sha256Hex(preimage: string): string {
+    return createHash('sha256').update(Buffer.from(String(preimage), 'hex')).digest('hex');
+  }
+
+  /**
+   * LND encodes byte fields as base64 in REST responses
+   */
+  private base64ToHex(value: string): string {
+    return Buffer.from(value, 'base64').toString('hex');
+  }
+
+  /**
+   * Validate amount is positive
+   */
+  private validateAmount(amount: number): void {
+    if (amount <= 0) {
+      throw new Error('Amount must be positive');
+    }
+  }
+
+  /**
+   * Log payment activity
+   */
+  private log(message: string, data?: any): void {
+    console.log(`[LightningPaymentProvider] ${message}`, data || '');
+  }
+
+  /**
+   * Get pending payment info
+   */
+  getPendingPayment(reference: string) {
+    return this.pendingPayments.get(reference);
+  }
+
+  /**
+   * Clean up expired pending payments
+   */
+  cleanupExpiredPayments(): number {
+    const now = Date.now();
+    let cleaned = 0;
+
+    for (const [reference, payment] of this.pendingPayments.entries()) {
+      if (now - payment.timestamp > this.config.paymentTimeout) {
+        this.pendingPayments.delete(reference);
+        cleaned++;
+      }
+    }
+
+    if (cleaned > 0) {
+      this.log(`Cleaned up ${cleaned} expired pending payments`);
+    }
+
+    return cleaned;
+  }
+
+  /**
+   * Get connection info
+   */
+  getConnectionInfo() {
+    return {
+      restEndpoint: this.config.restEndpoint,
+      autoRefundEnabled: this.config.autoRefund,
+      pendingPayments: this.pendingPayments.size,
+    };
+  }
+}
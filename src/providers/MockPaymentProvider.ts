@@ -1,19 +1,29 @@
 // src/providers/MockPaymentProvider.ts
+import { randomBytes } from 'crypto';
 import { PaymentProvider, PaymentVerification } from '../types';
 
 /**
  * Mock payment provider for testing and development
  * Replace with real payment provider in production
+ *
+ * Each set of payment details carries a unique `reference`. A proof must
+ * echo an outstanding reference, which is consumed on verification, so
+ * replay protection behaves as it does with real providers.
  */
 export class MockPaymentProvider implements PaymentProvider {
   private payments: Map<string, number> = new Map();
+  private pendingPayments: Map<string, number> = new Map();
 
   generatePaymentDetails(amount: number): any {
     const invoiceId = `mock_invoice_${Date.now()}`;
-    
+    const reference = `mock_ref_${randomBytes(8).toString('hex')}`;
+
+    this.pendingPayments.set(reference, amount);
+
     return {
       provider: 'mock',
       invoiceId,
+      reference,
       amount,
       currency: 'MOCK',
       paymentAddress: '0xMOCK_ADDRESS',
@@ -25,20 +35,23 @@ export class MockPaymentProvider implements PaymentProvider {
     // Simulate async verification
     await new Promise(resolve => setTimeout(resolve, 100));
 
-    // Mock verification - always succeeds with proof amount
-    if (proof && proof.amount) {
-      this.payments.set(proof.txId || 'mock_tx', proof.amount);
-      
+    // Mock verification - succeeds once per reference, for the requested amount
+    const amount = proof?.reference ? this.pendingPayments.get(proof.reference) : undefined;
+
+    if (amount === undefined) {
       return {
-        valid: true,
-        amount: proof.amount,
+        valid: false,
+        amount: 0,
+        reason: 'Unknown or already used payment reference',
       };
     }
 
+    this.pendingPayments.delete(proof.reference);
+    this.payments.set(proof.reference, amount);
+
     return {
-      valid: false,
-      amount: 0,
-      reason: 'Invalid payment proof',
+      valid: true,
+      amount,
     };
   }
 
@@ -49,6 +62,10 @@ export class MockPaymentProvider implements PaymentProvider {
     console.log(`[MockPaymentProvider] Refund issued: ${amount} to ${proof.userId || 'unknown'}`);
   }
 
+  async payoutProof(recipient: string): Promise<any> {
+    return { userId: recipient };
+  }
+
   // Helper for testing
   getPaymentHistory(): Array<[string, number]> {
     return Array.from(this.payments.entries());
@@ -0,0 +1,232 @@
+// src/providers/RefundBatcher.ts
+import { EventEmitter } from 'events';
+import { BatchRefund, PaymentProvider, PaymentVerification } from '../types';
+
+export interface RefundBatcherConfig {
+  /** Provider that takes payments and pays out the batched refunds */
+  provider: PaymentProvider;
+
+  /** Pay a recipient as soon as they are owed at least this much (default: Infinity - interval only) */
+  threshold?: number;
+
+  /** Interval in ms at which everything owed (at least minRefund) is paid out; 0 disables (default: 60000) */
+  flushInterval?: number;
+
+  /** Smallest amount worth paying out - smaller balances keep accumulating (default: 0) */
+  minRefund?: number;
+
+  /** Most recipients paid in one batch transaction (default: 8) */
+  maxBatchSize?: number;
+
+  /** Extract the refund recipient from a proof (default: senderAddress or senderWallet) */
+  recipientOf?: (proof: any) => string | undefined;
+}
+
+/**
+ * Amount owed to one recipient, waiting to be paid out
+ */
+export interface OwedRefund {
+  recipient: string;
+  amount: number;
+
+  /** Number of refunds making up the amount */
+  refunds: number;
+
+  /** When the oldest unpaid refund was added (ms timestamp) */
+  since: number;
+}
+
+/**
+ * A refund waiting in a batch, settled when the batch is paid
+ */
+interface QueuedRefund extends BatchRefund {
+  since: number;
+  resolve: () => void;
+  reject: (error: any) => void;
+}
+
+/**
+ * Refund batching wrapper for a payment provider
+ *
+ * Refunds are not paid when sessions end: they are added to the amount owed
+ * to the recipient (across sessions) and paid out once the recipient reaches
+ * the threshold, or on the flush interval. Payouts go through the provider's
+ * issueBatchRefund (several recipients per transaction) when available.
+ *
+ * issueRefund() resolves only once the batch holding the refund is paid, and
+ * rejects if it is not, so WS402's refund queue records it as settled only
+ * after the payout and retries it otherwise.
+ *
+ * Events: 'flushed' ({ refunds }), 'flush_error' ({ refunds, error })
+ */
+export class RefundBatcher extends EventEmitter implements PaymentProvider {
+  private provider: PaymentProvider;
+  private owed: Map<string, QueuedRefund[]>;
+  private timer: NodeJS.Timeout | null = null;
+  private config: Required<Omit<RefundBatcherConfig, 'provider'>>;
+
+  constructor(config: RefundBatcherConfig) {
+    super();
+
+    this.provider = config.provider;
+    this.owed = new Map();
+    this.config = {
+      threshold: config.threshold ?? Infinity,
+      flushInterval: config.flushInterval ?? 60000, // 1 minute
+      minRefund: config.minRefund || 0,
+      maxBatchSize: config.maxBatchSize || 8,
+      recipientOf: config.recipientOf || ((proof: any) => proof?.senderAddress ?? proof?.senderWallet),
+    };
+
+    if (this.config.flushInterval > 0) {
+      this.timer = setInterval(() => {
+        this.flush().catch(error => this.emit('error', error));
+      }, this.config.flushInterval);
+      this.timer.unref();
+    }
+  }
+
+  generatePaymentDetails(amount: number): any {
+    return this.provider.generatePaymentDetails(amount);
+  }
+
+  async requestPaymentDetails(amount: number, resourceId?: string, estimatedDuration?: number): Promise<any> {
+    return this.provider.requestPaymentDetails
+      ? this.provider.requestPaymentDetails(amount, resourceId, estimatedDuration)
+      : this.provider.generatePaymentDetails(amount);
+  }
+
+  verifyPayment(proof: any): Promise<PaymentVerification> {
+    return this.provider.verifyPayment(proof);
+  }
+
+  /**
+   * Add the refund to the amount owed to its recipient, resolving once it is paid out
+   * Proofs without a recipient (e.g. one-time refund invoices) are refunded immediately.
+   */
+  async issueRefund(proof: any, amount: number): Promise<void> {
+    const recipient = this.config.recipientOf(proof);
+
+    if (!recipient) {
+      await this.provider.issueRefund(proof, amount);
+      return;
+    }
+
+    const paid = new Promise<void>((resolve, reject) => {
+      const queued = this.owed.get(recipient) || [];
+      queued.push({ proof, amount, since: Date.now(), resolve, reject });
+      this.owed.set(recipient, queued);
+    });
+
+    const owed = this.getOwedBalance(recipient);
+    this.log('Refund added to batch', { recipient, amount, owed });
+
+    if (owed >= this.config.threshold) {
+      this.flush([recipient]).catch(error => this.emit('error', error));
+    }
+    return paid;
+  }
+
+  /**
+   * Pay out what is owed (at least minRefund) to the given recipients, or to everyone
+   * Refunds that are not paid are rejected back to their callers.
+   */
+  async flush(recipients?: string[]): Promise<void> {
+    const due = Array.from(new Set(recipients || this.owed.keys()))
+      .filter(recipient => {
+        const owed = this.getOwedBalance(recipient);
+        return owed >= this.config.minRefund && owed > 0;
+      })
+      .map(recipient => {
+        // Taken out while paying, so refunds added meanwhile start a new balance
+        const queued = this.owed.get(recipient)!;
+        this.owed.delete(recipient);
+        return queued;
+      });
+
+    for (let i = 0; i < due.length; i += this.config.maxBatchSize) {
+      await this.payOut(due.slice(i, i + this.config.maxBatchSize).flat());
+    }
+  }
+
+  /**
+   * Amounts currently owed, largest first
+   */
+  getOwed(): OwedRefund[] {
+    return Array.from(this.owed.entries())
+      .map(([recipient, queued]) => ({
+        recipient,
+        amount: queued.reduce((sum, refund) => sum + refund.amount, 0),
+        refunds: queued.length,
+        since: Math.min(...queued.map(refund => refund.since)),
+      }))
+      .sort((a, b) => b.amount - a.amount);
+  }
+
+  /**
+   * Amount currently owed to a recipient
+   */
+  getOwedBalance(recipient: string): number {
+    return (this.owed.get(recipient) || []).reduce((sum, refund) => sum + refund.amount, 0);
+  }
+
+  /**
+   * Stop the flush interval
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Pay one batch, settling each refund's issueRefund() with the outcome
+   * Each refund is passed separately, so the provider converts it at its own proof's rate.
+   */
+  private async payOut(batch: QueuedRefund[]): Promise<void> {
+    const refunds: BatchRefund[] = batch.map(({ proof, amount }) => ({ proof, amount }));
+    const errors = new Map<BatchRefund, any>();
+
+    try {
+      if (this.provider.issueBatchRefund) {
+        const failed = await this.provider.issueBatchRefund(refunds);
+        failed.forEach(refund => errors.set(refund, new Error('Refund was not paid in its batch')));
+      } else {
+        // Fallback for providers without batch support: one refund at a time
+        for (const refund of refunds) {
+          await this.provider.issueRefund(refund.proof, refund.amount).catch(error => errors.set(refund, error));
+        }
+      }
+    } catch (error) {
+      refunds.forEach(refund => errors.set(refund, error));
+    }
+
+    batch.forEach((queued, index) => {
+      const error = errors.get(refunds[index]);
+      if (error) {
+        queued.reject(error);
+      } else {
+        queued.resolve();
+      }
+    });
+
+    const paid = refunds.filter(refund => !errors.has(refund));
+    const unpaid = refunds.filter(refund => errors.has(refund));
+    if (paid.length > 0) {
+      this.log('✅ Batch refund paid', { refunds: paid.length });
+      this.emit('flushed', { refunds: paid });
+    }
+    if (unpaid.length > 0) {
+      this.log('❌ Batch refund failed', { refunds: unpaid.length });
+      this.emit('flush_error', { refunds: unpaid, error: errors.get(unpaid[0]) });
+    }
+  }
+
+  /**
+   * Log batching activity
+   */
+  private log(message: string, data?: any): void {
+    console.log(`[RefundBatcher] ${message}`, data || '');
+  }
+}
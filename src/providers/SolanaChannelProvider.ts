@@ -0,0 +1,166 @@
+// src/providers/SolanaChannelProvider.ts
+import { createPublicKey, verify } from 'crypto';
+import { PublicKey } from '@solana/web3.js';
+import { ChannelVerification, PaymentChannel, PaymentChannelProvider, PaymentVerification } from '../types';
+
+export interface SolanaChannelProviderConfig {
+  /** Conversion rate: lamports (or token units) to native units */
+  conversionRate?: number;
+
+  /** Submit a voucher to the escrow program for the consumed amount, in lamports (or token units) */
+  redeem: (channel: PaymentChannel, voucher: any, amountUnits: bigint) => Promise<void>;
+
+  /** Check the channel is funded on-chain (e.g. escrow account balance >= capacity) */
+  verifyChannel: (channel: PaymentChannel) => Promise<boolean>;
+}
+
+/**
+ * Solana Payment Channel Provider for WS402
+ *
+ * Channels and vouchers are ed25519 signatures (base64) by the payer's wallet
+ * over UTF-8 messages, as produced by wallet `signMessage`:
+ * - Open: `{ channelId, payer, capacity, signature }` signing `ws402-channel:<channelId>:<payer>:<capacity>`
+ * - Voucher: `{ channelId, amount, signature }` signing `ws402-voucher:<channelId>:<amount>`
+ *
+ * Amounts are cumulative lamports (or token units) as decimal strings. Redemption
+ * is delegated to the `redeem` callback, which submits the voucher to the escrow.
+ */
+export class SolanaChannelProvider implements PaymentChannelProvider {
+  private config: Required<SolanaChannelProviderConfig>;
+
+  constructor(config: SolanaChannelProviderConfig) {
+    // A signed capacity is only a promise - the session balance must be backed by escrowed funds
+    if (typeof config.verifyChannel !== 'function') {
+      throw new Error('verifyChannel is required to check channels are funded on-chain');
+    }
+
+    this.config = {
+      conversionRate: config.conversionRate || 1,
+      redeem: config.redeem,
+      verifyChannel: config.verifyChannel,
+    };
+  }
+
+  /**
+   * Message a payer signs to open a channel
+   */
+  static channelMessage(channelId: string, payer: string, capacity: string): string {
+    return `ws402-channel:${channelId}:${payer}:${capacity}`;
+  }
+
+  /**
+   * Message a payer signs for a cumulative voucher
+   */
+  static voucherMessage(channelId: string, amount: string): string {
+    return `ws402-voucher:${channelId}:${amount}`;
+  }
+
+  /**
+   * Verify the payer's signature over the channel and its on-chain funding
+   */
+  async openChannel(request: any): Promise<ChannelVerification> {
+    try {
+      const { channelId, payer, capacity, signature } = request || {};
+      const capacityUnits = BigInt(capacity);
+
+      if (typeof channelId !== 'string' || !channelId) {
+        return { valid: false, reason: 'Missing channel ID' };
+      }
+      if (capacityUnits <= 0n) {
+        return { valid: false, reason: 'Channel capacity must be positive' };
+      }
+
+      const message = SolanaChannelProvider.channelMessage(channelId, payer, capacityUnits.toString());
+      if (!this.verifySignature(payer, message, signature)) {
+        return { valid: false, reason: 'Channel not signed by payer' };
+      }
+
+      const channel: PaymentChannel = {
+        channelId,
+        payer,
+        capacity: this.toAmount(capacityUnits),
+      };
+
+      if (!(await this.config.verifyChannel(channel))) {
+        return { valid: false, reason: 'Channel is not funded' };
+      }
+
+      this.log('Channel opened', { channelId, payer, capacity: capacityUnits.toString() });
+      return { valid: true, channel };
+
+    } catch (error: any) {
+      this.log('Channel verification error', error.message);
+      return { valid: false, reason: `Invalid channel: ${error.message}` };
+    }
+  }
+
+  /**
+   * Verify a voucher was signed by the channel's payer
+   */
+  async verifyVoucher(channel: PaymentChannel, voucher: any): Promise<PaymentVerification> {
+    try {
+      if (voucher?.channelId !== channel.channelId) {
+        return { valid: false, amount: 0, reason: 'Voucher is for another channel' };
+      }
+
+      const amountUnits = BigInt(voucher.amount);
+      const message = SolanaChannelProvider.voucherMessage(channel.channelId, amountUnits.toString());
+
+      if (!this.verifySignature(channel.payer, message, voucher.signature)) {
+        return { valid: false, amount: 0, reason: 'Voucher not signed by payer' };
+      }
+
+      return { valid: true, amount: this.toAmount(amountUnits) };
+
+    } catch (error: any) {
+      return { valid: false, amount: 0, reason: `Invalid voucher: ${error.message}` };
+    }
+  }
+
+  /**
+   * Redeem the voucher for the consumed amount through the escrow
+   */
+  async redeemVoucher(channel: PaymentChannel, voucher: any, amount: number): Promise<void> {
+    const amountUnits = BigInt(Math.floor(amount / this.config.conversionRate));
+
+    this.log('Redeeming voucher', {
+      channelId: channel.channelId,
+      voucherAmount: voucher.amount,
+      amountUnits: amountUnits.toString(),
+    });
+
+    await this.config.redeem(channel, voucher, amountUnits);
+  }
+
+  /**
+   * Verify an ed25519 signature by a Solana public key
+   */
+  private verifySignature(payer: string, message: string, signature: any): boolean {
+    if (typeof signature !== 'string') return false;
+
+    const key = createPublicKey({
+      key: {
+        kty: 'OKP',
+        crv: 'Ed25519',
+        x: Buffer.from(new PublicKey(payer).toBytes()).toString('base64url'),
+      },
+      format: 'jwk',
+    });
+
+    return verify(null, Buffer.from(message, 'utf8'), key, Buffer.from(signature, 'base64'));
+  }
+
+  /**
+   * Convert lamports (or token units) to native units
+   */
+  private toAmount(units: bigint): number {
+    return Number(units) * this.config.conversionRate;
+  }
+
+  /**
+   * Log channel activity
+   */
+  private log(message: string, data?: any): void {
+    console.log(`[SolanaChannelProvider] ${message}`, data || '');
+  }
+}
@@ -1,5 +1,5 @@
 // src/providers/SolanaPaymentProvider.ts
-import { PaymentProvider, PaymentVerification } from '../types';
+import { BatchRefund, FiatPricing, FinalityPolicy, LockedRate, PaymentProvider, PaymentVerification } from '../types';
 import { 
   Connection, 
   PublicKey, 
@@ -8,10 +8,20 @@ import {
   LAMPORTS_PER_SOL,
   ParsedTransactionWithMeta,
   Keypair,
+  Finality,
 } from '@solana/web3.js';
 import { encodeURL, createQR } from '@solana/pay';
+import {
+  getMint,
+  getAccount,
+  getAssociatedTokenAddressSync,
+  createAssociatedTokenAccountIdempotentInstruction,
+  createTransferCheckedInstruction,
+} from '@solana/spl-token';
 import BigNumber from 'bignumber.js';
 import { webcrypto } from 'crypto';
+import { lockConversionRate } from '../oracles/lockConversionRate';
+import { ManualRefundRequiredError } from '../errors';
 
 export interface SolanaPaymentProviderConfig {
   /** Solana RPC endpoint URL */
@@ -29,9 +39,15 @@ export interface SolanaPaymentProviderConfig {
   /** Conversion rate: wei/sat/etc to SOL */
   conversionRate?: number;
   
+  /** Prices in a fiat currency, converted with an oracle rate locked per payment (replaces conversionRate) */
+  fiatPricing?: FiatPricing;
+  
   /** SPL Token mint address (optional, for token payments) */
   splToken?: string;
   
+  /** SPL Token decimals (optional - read from the mint if omitted) */
+  splTokenDecimals?: number;
+  
   /** Payment timeout in milliseconds */
   paymentTimeout?: number;
   
@@ -46,6 +62,12 @@ export interface SolanaPaymentProviderConfig {
   
   /** Enable automatic refunds (requires merchantPrivateKey) */
   autoRefund?: boolean;
+  
+  /** Commitment a payment must reach before it is accepted (default: 'confirmed') */
+  commitment?: Finality;
+  
+  /** Commitment by amount, and provisional session starts ('confirmed' first, 'finalized' in the background) */
+  finality?: FinalityPolicy<Finality>;
 }
 
 /**
@@ -62,13 +84,22 @@ export class SolanaPaymentProvider implements PaymentProvider {
   private connection: Connection;
   private merchantWallet: PublicKey;
   private merchantKeypair: Keypair | null;
-  private config: Required<Omit<SolanaPaymentProviderConfig, 'splToken' | 'merchantPrivateKey'>> & { 
+  private config: Required<Omit<SolanaPaymentProviderConfig, 'splToken' | 'splTokenDecimals' | 'merchantPrivateKey' | 'finality' | 'fiatPricing'>> & { 
     splToken?: string;
+    fiatPricing?: FiatPricing;
     autoRefund: boolean;
   };
+  private tokenMint?: {
+    programId: PublicKey;
+    decimals: number;
+  };
+  private finality: Required<FinalityPolicy<Finality>>;
+  private tokenDecimals?: number;
   private pendingPayments: Map<string, {
     amount: number;
     amountSOL: BigNumber;
+    amountUnits: BigNumber;
+    conversionRate: number;
     timestamp: number;
     recipient: PublicKey;
   }>;
@@ -99,9 +130,36 @@ export class SolanaPaymentProvider implements PaymentProvider {
       memo: config.memo || 'WS402',
       splToken: config.splToken,
       autoRefund: config.autoRefund !== false && this.merchantKeypair !== null, // Enable by default if keypair available
+      commitment: config.commitment || 'confirmed',
+      fiatPricing: config.fiatPricing,
+    };
+
+    if (config.fiatPricing && config.splToken && !config.fiatPricing.asset) {
+      throw new Error('fiatPricing.asset (the token symbol) is required for SPL token payments');
+    }
+
+    this.finality = {
+      default: config.finality?.default || this.config.commitment,
+      tiers: [...(config.finality?.tiers || [])].sort((a, b) => a.maxAmount - b.maxAmount),
+      provisionalMaxAmount: config.finality?.provisionalMaxAmount || 0,
     };
 
     this.pendingPayments = new Map();
+
+    if (config.splToken) {
+      this.tokenDecimals = config.splTokenDecimals;
+      // Load mint info up front so payment details can quote token amounts
+      this.getTokenMint().catch((error: any) => {
+        this.log('Warning: Failed to load SPL token mint', error.message);
+      });
+    }
+  }
+
+  /**
+   * Conversion rate a payment was quoted at (locked in the proof at verification)
+   */
+  private refundRate(proof: any): number {
+    return proof?.conversionRate || this.config.conversionRate;
   }
 
   /**
@@ -124,12 +182,67 @@ export class SolanaPaymentProvider implements PaymentProvider {
    * Generate payment details with Solana Pay QR code
    */
   generatePaymentDetails(amount: number): any {
+    if (this.config.fiatPricing) {
+      throw new Error('Fiat pricing needs a live rate - use requestPaymentDetails() (ws402.requestSchema)');
+    }
+
+    return this.createPaymentDetails(amount);
+  }
+
+  /**
+   * Generate payment details, converting fiat prices at the oracle's current rate
+   */
+  async requestPaymentDetails(amount: number): Promise<any> {
+    if (!this.config.fiatPricing) {
+      return this.createPaymentDetails(amount);
+    }
+
+    return this.createPaymentDetails(amount, await this.lockRate());
+  }
+
+  /**
+   * Refund proof for a payout to a wallet, at the oracle's current rate under fiat pricing
+   */
+  async payoutProof(recipient: string): Promise<any> {
+    let senderWallet: string;
+    try {
+      senderWallet = new PublicKey(recipient).toBase58();
+    } catch (error) {
+      throw new Error(`Invalid recipient wallet address: ${recipient}`);
+    }
+
+    const conversionRate = this.config.fiatPricing ? (await this.lockRate()).conversionRate : this.config.conversionRate;
+    return { senderWallet, conversionRate };
+  }
+
+  /**
+   * Lock the oracle's current rate for the chain base unit (fiat pricing only)
+   */
+  private async lockRate(): Promise<LockedRate> {
+    const decimals = this.config.splToken ? (await this.getTokenMint()).decimals : 9; // lamports
+    const asset = this.config.fiatPricing!.asset || 'SOL';
+    return lockConversionRate(this.config.fiatPricing!, asset, decimals);
+  }
+
+  /**
+   * Payment details at a locked oracle rate, or at the configured conversion rate
+   */
+  private createPaymentDetails(amount: number, rate?: LockedRate): any {
     this.validateAmount(amount);
+    const conversionRate = rate?.conversionRate ?? this.config.conversionRate;
 
-    // Convert amount to SOL
-    const amountSOL = new BigNumber(amount)
-      .dividedBy(this.config.conversionRate)
-      .dividedBy(LAMPORTS_PER_SOL);
+    // Convert amount to whole base units (lamports, or token units for SPL payments)
+    const amountUnits = new BigNumber(amount).dividedBy(conversionRate).integerValue(BigNumber.ROUND_FLOOR);
+    const amountSOL = amountUnits.dividedBy(LAMPORTS_PER_SOL);
+
+    // Solana Pay amounts are in whole SOL / whole tokens
+    let amountToken: BigNumber | undefined;
+    if (this.config.splToken) {
+      if (this.tokenDecimals === undefined) {
+        throw new Error('SPL token decimals not loaded yet - set splTokenDecimals to quote immediately');
+      }
+      amountToken = amountUnits.dividedBy(new BigNumber(10).pow(this.tokenDecimals));
+    }
 
     const reference = this.generateReference();
     
@@ -137,6 +250,8 @@ export class SolanaPaymentProvider implements PaymentProvider {
     this.pendingPayments.set(reference, {
       amount,
       amountSOL,
+      amountUnits,
+      conversionRate,
       timestamp: Date.now(),
       recipient: this.merchantWallet,
     });
@@ -144,7 +259,7 @@ export class SolanaPaymentProvider implements PaymentProvider {
     // Create Solana Pay URL
     const url = encodeURL({
       recipient: this.merchantWallet,
-      amount: amountSOL,
+      amount: amountToken ?? amountSOL,
       reference: new PublicKey(reference),
       label: this.config.label,
       message: this.config.message,
@@ -158,9 +273,12 @@ export class SolanaPaymentProvider implements PaymentProvider {
       recipient: this.merchantWallet.toBase58(),
       amount: amount,
       amountSOL: amountSOL.toString(),
+      amountToken: amountToken?.toString(),
       currency: this.config.splToken ? 'SPL' : 'SOL',
       splToken: this.config.splToken,
+      tokenDecimals: this.tokenDecimals,
       reference,
+      rate,
       solanaPayURL: url.toString(),
       qrCode: url.toString(), // Can be used with createQR() on client side
       expiresAt: Date.now() + this.config.paymentTimeout,
@@ -210,18 +328,25 @@ export class SolanaPaymentProvider implements PaymentProvider {
         };
       }
 
+      const commitment = this.commitmentFor(pending.amount);
+
+      // Small payments needing finalization start once confirmed and are finalized in the background
+      const provisional = commitment === 'finalized' && pending.amount <= this.finality.provisionalMaxAmount;
+      const fetchCommitment: Finality = provisional ? 'confirmed' : commitment;
+
       // Fetch transaction from blockchain with retries
-      this.log('Fetching transaction from blockchain...', { signature });
+      this.log('Fetching transaction from blockchain...', { signature, commitment: fetchCommitment });
       
       let tx: ParsedTransactionWithMeta | null = null;
-      const maxRetries = 10;
+      // Finalization takes ~13s longer than confirmation
+      const maxRetries = fetchCommitment === 'finalized' ? 20 : 10;
       const retryDelay = 2000; // 2 seconds
       
       for (let i = 0; i < maxRetries; i++) {
         try {
           tx = await this.connection.getParsedTransaction(signature, {
             maxSupportedTransactionVersion: 0,
-            commitment: 'confirmed',
+            commitment: fetchCommitment,
           });
           
           if (tx) {
@@ -263,7 +388,7 @@ export class SolanaPaymentProvider implements PaymentProvider {
       const verified = await this.verifyTransactionDetails(
         tx,
         pending.recipient,
-        pending.amountSOL,
+        pending.amountUnits,
         reference
       );
 
@@ -274,10 +399,24 @@ export class SolanaPaymentProvider implements PaymentProvider {
       // Clean up pending payment
       this.pendingPayments.delete(reference);
 
+      // Refunds are paid at the rate the payment was quoted at
+      proof.conversionRate = pending.conversionRate;
+
+      if (provisional) {
+        this.log('Payment accepted provisionally', { signature, amount: pending.amount });
+
+        return {
+          valid: true,
+          amount: pending.amount,
+          confirmation: this.waitForFinalization(signature, pending.amount),
+        };
+      }
+
       this.log('Payment verified successfully', {
         signature,
         amount: pending.amount,
         amountSOL: pending.amountSOL.toString(),
+        commitment,
       });
 
       return {
@@ -295,6 +434,42 @@ export class SolanaPaymentProvider implements PaymentProvider {
     }
   }
 
+  /**
+   * Poll a confirmed payment until it is finalized
+   * Resolves invalid (never rejects) if it fails or is not finalized within paymentTimeout.
+   */
+  private async waitForFinalization(signature: string, amount: number): Promise<PaymentVerification> {
+    const deadline = Date.now() + this.config.paymentTimeout;
+
+    while (Date.now() < deadline) {
+      try {
+        const status = (await this.connection.getSignatureStatus(signature)).value;
+
+        if (status?.err) {
+          return { valid: false, amount: 0, reason: `Transaction failed: ${JSON.stringify(status.err)}` };
+        }
+        if (status?.confirmationStatus === 'finalized') {
+          this.log('Provisional payment finalized', { signature });
+          return { valid: true, amount };
+        }
+      } catch (error: any) {
+        this.log('Error checking finalization', { signature, error: error.message });
+      }
+
+      await new Promise(resolve => setTimeout(resolve, 2000));
+    }
+
+    return { valid: false, amount: 0, reason: 'Transaction was not finalized in time' };
+  }
+
+  /**
+   * Commitment required for an amount under the finality policy
+   */
+  private commitmentFor(amount: number): Finality {
+    const tier = this.finality.tiers.find(tier => amount <= tier.maxAmount);
+    return tier ? tier.finality : this.finality.default;
+  }
+
   /**
    * Issue refund via Solana transaction
    */
@@ -322,7 +497,7 @@ export class SolanaPaymentProvider implements PaymentProvider {
 
       // Convert refund amount to lamports
       const refundSOL = new BigNumber(amount)
-        .dividedBy(this.config.conversionRate)
+        .dividedBy(this.refundRate(proof))
         .dividedBy(LAMPORTS_PER_SOL);
 
       const lamports = Math.floor(refundSOL.multipliedBy(LAMPORTS_PER_SOL).toNumber());
@@ -330,7 +505,7 @@ export class SolanaPaymentProvider implements PaymentProvider {
       // Check if amount is too small
       if (lamports < 1) {
         this.log('Refund amount too small, skipping', { lamports });
-        return;
+        throw new ManualRefundRequiredError(`Refund of ${amount} is below 1 base unit`);
       }
 
       this.log('Refund calculated', {
@@ -350,27 +525,14 @@ export class SolanaPaymentProvider implements PaymentProvider {
           amount: lamports,
           memo: `WS402 Refund - Original TX: ${signature?.slice(0, 20)}...`,
         });
-        return;
+        throw new ManualRefundRequiredError('Auto-refund disabled or keypair not available - manual refund required');
       }
 
-      // Check merchant balance
-      const merchantBalance = await this.connection.getBalance(this.merchantWallet);
-      const minBalance = 5000; // Keep 5000 lamports (0.000005 SOL) for rent
-      
-      if (merchantBalance < lamports + minBalance) {
-        throw new Error(
-          `Insufficient merchant balance. Need ${lamports + minBalance} lamports, have ${merchantBalance} lamports`
-        );
-      }
-
-      // Create refund transaction
-      const transaction = new Transaction().add(
-        SystemProgram.transfer({
-          fromPubkey: this.merchantWallet,
-          toPubkey: recipientPubkey,
-          lamports,
-        })
-      );
+      // Refund in the same asset the payment was made in
+      const transfers = [{ recipient: recipientPubkey, units: BigInt(lamports) }];
+      const transaction = this.config.splToken
+        ? await this.buildTokenRefund(transfers)
+        : await this.buildSolRefund(transfers);
 
       // Add memo if original signature exists
       if (signature) {
@@ -385,129 +547,273 @@ export class SolanaPaymentProvider implements PaymentProvider {
         lamports,
       });
 
-      // Send transaction (don't use sendAndConfirmTransaction - it needs WebSocket)
-      const txSignature = await this.connection.sendTransaction(
-        transaction,
-        [this.merchantKeypair],
-        {
-          skipPreflight: false,
-          preflightCommitment: 'confirmed',
-        }
-      );
+      await this.sendRefundTransaction(transaction, {
+        amount: lamports,
+        amountSOL: refundSOL.toString(),
+        recipient: senderWallet,
+      });
 
-      this.log('📤 Refund transaction sent', { signature: txSignature });
+    } catch (error: any) {
+      this.log('❌ Refund error', error.message);
+      
+      if (error.message.includes('Insufficient')) {
+        this.log('⚠️  Merchant wallet has insufficient balance for refund');
+      } else if (error.message.includes('Invalid')) {
+        this.log('⚠️  Invalid wallet address for refund');
+      }
 
-      // Manually confirm using polling (Alchemy doesn't support WebSocket subscriptions)
-      const startTime = Date.now();
-      const timeout = 30000; // 30 seconds
-      let confirmed = false;
+      // Rethrow so WS402's refund queue retries it
+      throw error;
+    }
+  }
 
-      while (!confirmed && (Date.now() - startTime) < timeout) {
-        try {
-          const status = await this.connection.getSignatureStatus(txSignature);
-          
-          if (status?.value?.confirmationStatus === 'confirmed' || 
-              status?.value?.confirmationStatus === 'finalized') {
-            confirmed = true;
-            break;
-          }
-          
-          if (status?.value?.err) {
-            throw new Error(`Transaction failed: ${JSON.stringify(status.value.err)}`);
-          }
-          
-          // Wait 2 seconds before next check
-          await new Promise(resolve => setTimeout(resolve, 2000));
-        } catch (error: any) {
-          // Continue trying
-          await new Promise(resolve => setTimeout(resolve, 2000));
+  /**
+   * Send a refund transaction and poll for its confirmation
+   * Rejects if the transaction fails, or its blockhash expires before it is
+   * confirmed (it can then never land, so the refund queue may safely retry it).
+   */
+  private async sendRefundTransaction(transaction: Transaction, details: Record<string, any>): Promise<string> {
+    // Send transaction (don't use sendAndConfirmTransaction - it needs WebSocket)
+    const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash('confirmed');
+    transaction.recentBlockhash = blockhash;
+    transaction.feePayer = this.merchantKeypair!.publicKey;
+    transaction.sign(this.merchantKeypair!);
+
+    const txSignature = await this.connection.sendRawTransaction(transaction.serialize(), {
+      skipPreflight: false,
+      preflightCommitment: 'confirmed',
+    });
+    const explorer = `https://solscan.io/tx/${txSignature}${this.config.network !== 'mainnet-beta' ? '?cluster=' + this.config.network : ''}`;
+
+    this.log('📤 Refund transaction sent', { signature: txSignature });
+
+    // Manually confirm using polling (Alchemy doesn't support WebSocket subscriptions).
+    // There is no wall-clock timeout: until the blockhash expires the transaction can
+    // still land, and reporting a failure would let the refund queue pay a second time.
+    let waitingSince = Date.now();
+
+    while (true) {
+      let status;
+      let blockHeight: number;
+      try {
+        [status, blockHeight] = await Promise.all([
+          this.connection.getSignatureStatus(txSignature),
+          this.connection.getBlockHeight('confirmed'),
+        ]);
+        if (!status?.value && blockHeight > lastValidBlockHeight) {
+          // It may have landed between the two reads - look it up in history before giving up
+          status = await this.connection.getSignatureStatus(txSignature, { searchTransactionHistory: true });
         }
+      } catch (error: any) {
+        // RPC errors are transient - keep polling
+        this.log('⚠️  Could not check refund status, retrying', error.message);
+        await new Promise(resolve => setTimeout(resolve, 2000));
+        continue;
       }
 
-      if (!confirmed) {
-        this.log('⚠️  Refund sent but confirmation timeout. Check explorer:', {
-          signature: txSignature,
-          explorer: `https://solscan.io/tx/${txSignature}${this.config.network !== 'mainnet-beta' ? '?cluster=' + this.config.network : ''}`,
-        });
-      } else {
+      if (status?.value?.err) {
+        throw new Error(`Refund transaction failed: ${JSON.stringify(status.value.err)}`);
+      }
+
+      if (status?.value?.confirmationStatus === 'confirmed' ||
+          status?.value?.confirmationStatus === 'finalized') {
         this.log('✅ Refund transaction confirmed', {
           signature: txSignature,
-          amount: lamports,
-          amountSOL: refundSOL.toString(),
-          recipient: senderWallet,
-          explorer: `https://solscan.io/tx/${txSignature}${this.config.network !== 'mainnet-beta' ? '?cluster=' + this.config.network : ''}`,
+          ...details,
+          explorer,
         });
+        return txSignature;
       }
 
-    } catch (error: any) {
-      this.log('❌ Refund error', error.message);
-      
-      // Don't throw error to prevent session cleanup from failing
-      // Log the error but allow the session to end gracefully
-      if (error.message.includes('Insufficient')) {
-        this.log('⚠️  Merchant wallet has insufficient balance for refund');
-      } else if (error.message.includes('Invalid')) {
-        this.log('⚠️  Invalid wallet address for refund');
-      } else {
-        this.log('⚠️  Refund failed, may need manual processing', {
-          error: error.message,
-          stack: error.stack,
-        });
+      // A processed transaction is in a block already, so only an unknown one has expired
+      if (!status?.value && blockHeight > lastValidBlockHeight) {
+        throw new Error(`Refund transaction expired before confirmation: ${txSignature}`);
       }
+
+      if (Date.now() - waitingSince > 120000) {
+        this.log('⏳ Refund still unconfirmed, waiting for its blockhash to expire. Check explorer:', { signature: txSignature, explorer });
+        waitingSince = Date.now();
+      }
+
+      // Wait 2 seconds before next check
+      await new Promise(resolve => setTimeout(resolve, 2000));
     }
   }
 
+  /**
+   * Refund several payments in one transaction (one transfer per recipient)
+   * Each refund is converted at its own payment's rate, then merged per recipient.
+   * Resolves with the refunds that could not be paid (only those below one base unit -
+   * the transaction is all or nothing).
+   */
+  async issueBatchRefund(refunds: BatchRefund[]): Promise<BatchRefund[]> {
+    if (!this.config.autoRefund || !this.merchantKeypair) {
+      throw new ManualRefundRequiredError('Auto-refund disabled or keypair not available - manual refund required');
+    }
+
+    const byRecipient = new Map<string, { recipient: PublicKey; refunds: BatchRefund[]; units: bigint }>();
+    for (const refund of refunds) {
+      const recipient = new PublicKey(refund.proof.senderWallet);
+      const transfer = byRecipient.get(recipient.toBase58()) || { recipient, refunds: [], units: 0n };
+      transfer.refunds.push(refund);
+      transfer.units += BigInt(Math.floor(refund.amount / this.refundRate(refund.proof)));
+      byRecipient.set(recipient.toBase58(), transfer);
+    }
+
+    // Nothing to send for amounts below one base unit
+    const transfers = Array.from(byRecipient.values()).filter(({ units }) => units > 0n);
+    const unpayable = Array.from(byRecipient.values()).filter(({ units }) => units <= 0n).flatMap(({ refunds }) => refunds);
+    if (transfers.length === 0) return unpayable;
+
+    this.log('Issuing Solana batch refund', {
+      refunds: refunds.length,
+      recipients: transfers.length,
+      splToken: this.config.splToken,
+    });
+
+    const transaction = this.config.splToken
+      ? await this.buildTokenRefund(transfers)
+      : await this.buildSolRefund(transfers);
+
+    await this.sendRefundTransaction(transaction, {
+      recipients: transfers.length,
+      units: transfers.reduce((sum, { units }) => sum + units, 0n).toString(),
+    });
+
+    return unpayable;
+  }
+
+  /**
+   * Build a native SOL refund transaction
+   */
+  private async buildSolRefund(transfers: Array<{ recipient: PublicKey; units: bigint }>): Promise<Transaction> {
+    const lamports = transfers.reduce((sum, { units }) => sum + units, 0n);
+
+    // Check merchant balance
+    const merchantBalance = BigInt(await this.connection.getBalance(this.merchantWallet));
+    const minBalance = 5000n; // Keep 5000 lamports (0.000005 SOL) for rent
+    
+    if (merchantBalance < lamports + minBalance) {
+      throw new Error(
+        `Insufficient merchant balance. Need ${lamports + minBalance} lamports, have ${merchantBalance} lamports`
+      );
+    }
+
+    const transaction = new Transaction();
+    for (const { recipient, units } of transfers) {
+      transaction.add(
+        SystemProgram.transfer({
+          fromPubkey: this.merchantWallet,
+          toPubkey: recipient,
+          lamports: units,
+        })
+      );
+    }
+    return transaction;
+  }
+
+  /**
+   * Build an SPL token refund transaction
+   * Creates recipients' associated token accounts if they do not exist yet (merchant pays rent)
+   */
+  private async buildTokenRefund(transfers: Array<{ recipient: PublicKey; units: bigint }>): Promise<Transaction> {
+    const mint = new PublicKey(this.config.splToken!);
+    const { programId, decimals } = await this.getTokenMint();
+    const units = transfers.reduce((sum, transfer) => sum + transfer.units, 0n);
+
+    const merchantTokenAccount = getAssociatedTokenAddressSync(mint, this.merchantWallet, false, programId);
+    const recipientTokenAccounts = transfers.map(({ recipient }) =>
+      getAssociatedTokenAddressSync(mint, recipient, true, programId)
+    );
+
+    // Check merchant token balance
+    const merchantAccount = await getAccount(this.connection, merchantTokenAccount, 'confirmed', programId);
+    if (merchantAccount.amount < units) {
+      throw new Error(
+        `Insufficient merchant token balance. Need ${units} units, have ${merchantAccount.amount} units`
+      );
+    }
+
+    // Check merchant SOL covers fees, plus rent for recipient token accounts that must be created
+    const recipientAccounts = await this.connection.getMultipleAccountsInfo(recipientTokenAccounts);
+    const missingAccounts = recipientAccounts.filter(account => !account).length;
+    const rent = missingAccounts > 0
+      ? missingAccounts * await this.connection.getMinimumBalanceForRentExemption(165)
+      : 0;
+    const merchantBalance = await this.connection.getBalance(this.merchantWallet);
+    const minBalance = 5000 + rent;
+
+    if (merchantBalance < minBalance) {
+      throw new Error(
+        `Insufficient merchant balance for token refund fees. Need ${minBalance} lamports, have ${merchantBalance} lamports`
+      );
+    }
+
+    this.log('Token refund prepared', {
+      mint: mint.toBase58(),
+      units: units.toString(),
+      decimals,
+      createsTokenAccounts: missingAccounts,
+    });
+
+    const transaction = new Transaction();
+    transfers.forEach(({ recipient, units }, index) => {
+      transaction
+        .add(createAssociatedTokenAccountIdempotentInstruction(
+          this.merchantWallet,
+          recipientTokenAccounts[index],
+          recipient,
+          mint,
+          programId
+        ))
+        .add(createTransferCheckedInstruction(
+          merchantTokenAccount,
+          mint,
+          recipientTokenAccounts[index],
+          this.merchantWallet,
+          units,
+          decimals,
+          [],
+          programId
+        ));
+    });
+    return transaction;
+  }
+
   /**
    * Verify transaction details match expected payment
    */
   private async verifyTransactionDetails(
     tx: ParsedTransactionWithMeta,
     expectedRecipient: PublicKey,
-    expectedAmount: BigNumber,
+    expectedUnits: BigNumber,
     expectedReference: string
   ): Promise<PaymentVerification> {
     
     // Find the transfer instruction
-    const instructions = tx.transaction.message.instructions;
-    
-    let transferFound = false;
-    let transferAmount = new BigNumber(0);
-
-    for (const instruction of instructions) {
-      if ('parsed' in instruction && instruction.program === 'system') {
-        const parsed = instruction.parsed;
-        
-        if (parsed.type === 'transfer') {
-          const info = parsed.info;
-          
-          // Check recipient matches
-          if (info.destination === expectedRecipient.toBase58()) {
-            transferAmount = new BigNumber(info.lamports);
-            transferFound = true;
-            break;
-          }
-        }
-      }
-    }
+    const transfer = this.config.splToken
+      ? await this.findTokenTransfer(tx, expectedRecipient)
+      : this.findSolTransfer(tx, expectedRecipient);
 
-    if (!transferFound) {
+    if (!transfer.found) {
       return {
         valid: false,
         amount: 0,
-        reason: 'No valid transfer instruction found',
+        reason: transfer.reason || 'No valid transfer instruction found',
       };
     }
 
+    const transferAmount = transfer.units;
+
     // Verify amount (allow small variance for fees)
-    const expectedLamports = expectedAmount.multipliedBy(LAMPORTS_PER_SOL);
-    const variance = transferAmount.minus(expectedLamports).abs();
-    const allowedVariance = expectedLamports.multipliedBy(0.01); // 1% variance
+    const variance = transferAmount.minus(expectedUnits).abs();
+    const allowedVariance = expectedUnits.multipliedBy(0.01); // 1% variance
 
     if (variance.isGreaterThan(allowedVariance)) {
       return {
         valid: false,
         amount: 0,
-        reason: `Amount mismatch. Expected: ${expectedLamports.toString()}, Received: ${transferAmount.toString()}`,
+        reason: `Amount mismatch. Expected: ${expectedUnits.toString()}, Received: ${transferAmount.toString()}`,
       };
     }
 
@@ -533,12 +839,123 @@ export class SolanaPaymentProvider implements PaymentProvider {
 
     return {
       valid: true,
-      amount: transferAmount.dividedBy(LAMPORTS_PER_SOL)
+      amount: transferAmount
         .multipliedBy(this.config.conversionRate)
         .toNumber(),
     };
   }
 
+  /**
+   * Find a system program transfer to the merchant wallet
+   */
+  private findSolTransfer(
+    tx: ParsedTransactionWithMeta,
+    expectedRecipient: PublicKey
+  ): { found: boolean; units: BigNumber; reason?: string } {
+    for (const instruction of tx.transaction.message.instructions) {
+      if ('parsed' in instruction && instruction.program === 'system') {
+        const parsed = instruction.parsed;
+        
+        if (parsed.type === 'transfer') {
+          const info = parsed.info;
+          
+          // Check recipient matches
+          if (info.destination === expectedRecipient.toBase58()) {
+            return { found: true, units: new BigNumber(info.lamports) };
+          }
+        }
+      }
+    }
+
+    return { found: false, units: new BigNumber(0) };
+  }
+
+  /**
+   * Find an SPL token transfer / transferChecked of the configured mint
+   * into the merchant's associated token account
+   */
+  private async findTokenTransfer(
+    tx: ParsedTransactionWithMeta,
+    expectedRecipient: PublicKey
+  ): Promise<{ found: boolean; units: BigNumber; reason?: string }> {
+    const mint = new PublicKey(this.config.splToken!);
+    const { programId, decimals } = await this.getTokenMint();
+    const merchantTokenAccount = getAssociatedTokenAddressSync(mint, expectedRecipient, false, programId)
+      .toBase58();
+
+    for (const instruction of tx.transaction.message.instructions) {
+      if (!('parsed' in instruction) ||
+          (instruction.program !== 'spl-token' && instruction.program !== 'spl-token-2022')) {
+        continue;
+      }
+
+      const { type, info } = instruction.parsed;
+      if (info.destination !== merchantTokenAccount) continue;
+
+      if (type === 'transferChecked') {
+        if (info.mint !== mint.toBase58()) {
+          return { found: false, units: new BigNumber(0), reason: 'Token transfer is for the wrong mint' };
+        }
+        if (info.tokenAmount.decimals !== decimals) {
+          return { found: false, units: new BigNumber(0), reason: 'Token transfer decimals do not match mint' };
+        }
+        return { found: true, units: new BigNumber(info.tokenAmount.amount) };
+      }
+
+      if (type === 'transfer') {
+        // Unchecked transfers carry no mint - confirm it from the destination's token balance
+        if (!this.destinationHasMint(tx, merchantTokenAccount, mint.toBase58())) {
+          return { found: false, units: new BigNumber(0), reason: 'Token transfer is for the wrong mint' };
+        }
+        return { found: true, units: new BigNumber(info.amount) };
+      }
+    }
+
+    return { found: false, units: new BigNumber(0), reason: 'No token transfer to merchant token account found' };
+  }
+
+  /**
+   * Check the post-transaction token balance of an account is for the given mint
+   */
+  private destinationHasMint(tx: ParsedTransactionWithMeta, account: string, mint: string): boolean {
+    const accountKeys = tx.transaction.message.accountKeys.map(key =>
+      typeof key === 'string' ? key : key.pubkey.toBase58()
+    );
+    const accountIndex = accountKeys.indexOf(account);
+
+    return (tx.meta?.postTokenBalances || []).some(balance =>
+      balance.accountIndex === accountIndex && balance.mint === mint
+    );
+  }
+
+  /**
+   * Get the configured mint's token program and decimals, reading them once
+   */
+  private async getTokenMint(): Promise<{ programId: PublicKey; decimals: number }> {
+    if (this.tokenMint) return this.tokenMint;
+
+    const mint = new PublicKey(this.config.splToken!);
+
+    // Mint owner is the token program (Token or Token-2022)
+    const mintAccount = await this.connection.getAccountInfo(mint);
+    if (!mintAccount) {
+      throw new Error(`SPL token mint not found: ${mint.toBase58()}`);
+    }
+    const programId = mintAccount.owner;
+    const mintInfo = await getMint(this.connection, mint, 'confirmed', programId);
+
+    if (this.tokenDecimals !== undefined && this.tokenDecimals !== mintInfo.decimals) {
+      this.log('Warning: splTokenDecimals does not match mint decimals', {
+        configured: this.tokenDecimals,
+        mint: mintInfo.decimals,
+      });
+    }
+
+    this.tokenDecimals = mintInfo.decimals;
+    this.tokenMint = { programId, decimals: mintInfo.decimals };
+    return this.tokenMint;
+  }
+
   /**
    * Generate unique reference for payment tracking
    */
@@ -0,0 +1,64 @@
+// src/signers/Ed25519QuoteSigner.ts
+import { KeyObject, createPrivateKey, createPublicKey, sign, verify } from 'crypto';
+import { QuoteSigner } from '../types';
+
+export interface Ed25519QuoteSignerConfig {
+  /** Signing key (PEM or KeyObject) - omit on servers that only verify quotes */
+  privateKey?: string | KeyObject;
+
+  /** Verification key (PEM or KeyObject) - derived from privateKey if omitted */
+  publicKey?: string | KeyObject;
+}
+
+/**
+ * Ed25519 quote signer
+ * Quotes are verifiable with the public key alone, so payment servers and
+ * clients can check them without holding the signing key.
+ */
+export class Ed25519QuoteSigner implements QuoteSigner {
+  private privateKey: KeyObject | null;
+  private publicKey: KeyObject;
+
+  constructor(config: Ed25519QuoteSignerConfig) {
+    this.privateKey = typeof config.privateKey === 'string'
+      ? createPrivateKey(config.privateKey)
+      : config.privateKey ?? null;
+
+    const publicKey = config.publicKey ?? this.privateKey;
+    if (!publicKey) {
+      throw new Error('privateKey or publicKey is required');
+    }
+    this.publicKey = publicKey instanceof KeyObject && publicKey.type === 'public'
+      ? publicKey
+      : createPublicKey(publicKey);
+
+    if (this.publicKey.asymmetricKeyType !== 'ed25519') {
+      throw new Error('Quote signing keys must be ed25519');
+    }
+  }
+
+  sign(payload: string): string {
+    if (!this.privateKey) {
+      throw new Error('Cannot sign quotes without a private key');
+    }
+
+    return sign(null, Buffer.from(payload), this.privateKey).toString('base64');
+  }
+
+  verify(payload: string, signature: string): boolean {
+    if (typeof signature !== 'string') return false;
+
+    try {
+      return verify(null, Buffer.from(payload), this.publicKey, Buffer.from(signature, 'base64'));
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Public key (PEM) to publish for clients that verify quotes
+   */
+  getPublicKey(): string {
+    return this.publicKey.export({ type: 'spki', format: 'pem' }).toString();
+  }
+}
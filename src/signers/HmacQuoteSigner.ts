@@ -0,0 +1,32 @@
+// src/signers/HmacQuoteSigner.ts
+import { createHmac, timingSafeEqual } from 'crypto';
+import { QuoteSigner } from '../types';
+
+/**
+ * HMAC-SHA256 quote signer
+ * Quotes can only be verified with the secret - use it when the servers that
+ * issue schemas and the servers that accept payments share a secret.
+ */
+export class HmacQuoteSigner implements QuoteSigner {
+  private secret: string | Buffer;
+
+  constructor(secret: string | Buffer) {
+    if (!secret || secret.length < 32) {
+      throw new Error('HMAC quote secret must be at least 32 bytes');
+    }
+
+    this.secret = secret;
+  }
+
+  sign(payload: string): string {
+    return createHmac('sha256', this.secret).update(payload).digest('base64url');
+  }
+
+  verify(payload: string, signature: string): boolean {
+    if (typeof signature !== 'string') return false;
+
+    const expected = Buffer.from(this.sign(payload));
+    const actual = Buffer.from(signature);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+}
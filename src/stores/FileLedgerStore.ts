@@ -0,0 +1,96 @@
+// src/stores/FileLedgerStore.ts
+import { LedgerAccount, LedgerEntry, LedgerStore } from '../types';
+import { JsonFile } from './JsonFile';
+
+export interface FileLedgerStoreConfig {
+  /** Path of the JSON file holding accounts and their entries */
+  filePath: string;
+}
+
+interface LedgerFile {
+  accounts: LedgerAccount[];
+  entries: LedgerEntry[];
+}
+
+/**
+ * File-backed ledger store
+ *
+ * Balances are checked and updated in memory, so concurrent debits cannot
+ * overdraw an account, and each change is written to disk before it resolves.
+ */
+export class FileLedgerStore implements LedgerStore {
+  private file: JsonFile<LedgerFile>;
+  private state: { accounts: Map<string, LedgerAccount>; entries: LedgerEntry[] } | null = null;
+
+  constructor(config: FileLedgerStoreConfig) {
+    this.file = new JsonFile(config.filePath);
+  }
+
+  async getAccount(accountId: string): Promise<LedgerAccount | null> {
+    const { accounts } = await this.load();
+    const account = accounts.get(accountId);
+    return account ? { ...account } : null;
+  }
+
+  async createAccount(account: LedgerAccount): Promise<boolean> {
+    const { accounts } = await this.load();
+    if (accounts.has(account.accountId)) return false;
+
+    accounts.set(account.accountId, { ...account });
+    await this.persist();
+    return true;
+  }
+
+  async adjustBalance(
+    accountId: string,
+    amount: number,
+    type: LedgerEntry['type']
+  ): Promise<LedgerEntry | null> {
+    const { accounts, entries } = await this.load();
+    const account = accounts.get(accountId);
+    if (!account || account.balance + amount < 0) return null;
+
+    account.balance += amount;
+    const entry: LedgerEntry = {
+      accountId,
+      type,
+      amount,
+      balance: account.balance,
+      timestamp: Date.now(),
+    };
+    entries.push(entry);
+
+    await this.persist();
+    return entry;
+  }
+
+  async listEntries(accountId: string): Promise<LedgerEntry[]> {
+    const { entries } = await this.load();
+    return entries.filter(entry => entry.accountId === accountId);
+  }
+
+  /**
+   * Read the ledger from disk once, then serve it from memory
+   */
+  private async load(): Promise<{ accounts: Map<string, LedgerAccount>; entries: LedgerEntry[] }> {
+    if (this.state) return this.state;
+
+    const stored = await this.file.read({ accounts: [], entries: [] });
+
+    // Another call may have finished loading while we were reading
+    if (!this.state) {
+      this.state = {
+        accounts: new Map(stored.accounts.map(account => [account.accountId, account])),
+        entries: stored.entries,
+      };
+    }
+    return this.state;
+  }
+
+  private persist(): Promise<void> {
+    return this.file.write(() => ({
+      accounts: Array.from(this.state!.accounts.values()),
+      entries: this.state!.entries,
+    }));
+  }
+}
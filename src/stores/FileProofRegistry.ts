@@ -0,0 +1,54 @@
+// src/stores/FileProofRegistry.ts
+import { ProofRegistry } from '../types';
+import { JsonFile } from './JsonFile';
+
+export interface FileProofRegistryConfig {
+  /** Path of the JSON file holding consumed proof keys */
+  filePath: string;
+}
+
+/**
+ * File-backed registry of consumed payment proofs
+ *
+ * Keys are checked and claimed in memory, so concurrent claims of the same
+ * proof cannot both succeed, and the claim is written to disk before it resolves.
+ */
+export class FileProofRegistry implements ProofRegistry {
+  private file: JsonFile<Record<string, number>>;
+  private consumed: Map<string, number> | null = null;
+
+  constructor(config: FileProofRegistryConfig) {
+    this.file = new JsonFile(config.filePath);
+  }
+
+  async isConsumed(keys: string[]): Promise<boolean> {
+    const consumed = await this.load();
+    return keys.some(key => consumed.has(key));
+  }
+
+  async consume(keys: string[]): Promise<boolean> {
+    const consumed = await this.load();
+    if (keys.some(key => consumed.has(key))) return false;
+
+    const now = Date.now();
+    keys.forEach(key => consumed.set(key, now));
+
+    await this.file.write(() => Object.fromEntries(this.consumed!));
+    return true;
+  }
+
+  /**
+   * Read consumed keys from disk once, then serve them from memory
+   */
+  private async load(): Promise<Map<string, number>> {
+    if (this.consumed) return this.consumed;
+
+    const stored = await this.file.read({});
+
+    // Another call may have finished loading while we were reading
+    if (!this.consumed) {
+      this.consumed = new Map(Object.entries(stored));
+    }
+    return this.consumed;
+  }
+}
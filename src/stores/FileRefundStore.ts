@@ -0,0 +1,70 @@
+// src/stores/FileRefundStore.ts
+import { RefundJob, RefundStore } from '../types';
+import { JsonFile } from './JsonFile';
+
+export interface FileRefundStoreConfig {
+  /** Path of the JSON file holding queued refunds */
+  filePath: string;
+}
+
+/**
+ * File-backed refund store
+ *
+ * Refunds are kept in memory and every change is written to disk before it
+ * resolves, so pending refunds are retried after a restart. Settled and dead
+ * refunds stay in the file as a record for reconciliation.
+ */
+export class FileRefundStore implements RefundStore {
+  private file: JsonFile<Record<string, RefundJob>>;
+  private jobs: Map<string, RefundJob> | null = null;
+
+  constructor(config: FileRefundStoreConfig) {
+    this.file = new JsonFile(config.filePath);
+  }
+
+  async add(job: RefundJob): Promise<boolean> {
+    const jobs = await this.load();
+    if (jobs.has(job.id)) return false;
+
+    jobs.set(job.id, { ...job });
+    await this.persist();
+    return true;
+  }
+
+  async update(job: RefundJob): Promise<void> {
+    const jobs = await this.load();
+    jobs.set(job.id, { ...job });
+    await this.persist();
+  }
+
+  async get(id: string): Promise<RefundJob | null> {
+    const job = (await this.load()).get(id);
+    return job ? { ...job } : null;
+  }
+
+  async list(status?: RefundJob['status']): Promise<RefundJob[]> {
+    return Array.from((await this.load()).values())
+      .filter(job => !status || job.status === status)
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .map(job => ({ ...job }));
+  }
+
+  /**
+   * Read refunds from disk once, then serve them from memory
+   */
+  private async load(): Promise<Map<string, RefundJob>> {
+    if (this.jobs) return this.jobs;
+
+    const stored = await this.file.read({});
+
+    // Another call may have finished loading while we were reading
+    if (!this.jobs) {
+      this.jobs = new Map(Object.entries(stored));
+    }
+    return this.jobs;
+  }
+
+  private persist(): Promise<void> {
+    return this.file.write(() => Object.fromEntries(this.jobs!));
+  }
+}
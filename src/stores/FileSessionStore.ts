@@ -0,0 +1,60 @@
+// src/stores/FileSessionStore.ts
+import { SessionStore, WS402Session } from '../types';
+import { JsonFile } from './JsonFile';
+
+export interface FileSessionStoreConfig {
+  /** Path of the JSON file holding session checkpoints */
+  filePath: string;
+}
+
+/**
+ * File-backed session store
+ *
+ * Keeps every unsettled session in a single JSON file, written atomically
+ * on each checkpoint.
+ */
+export class FileSessionStore implements SessionStore {
+  private file: JsonFile<WS402Session[]>;
+  private sessions: Map<string, WS402Session> | null = null;
+
+  constructor(config: FileSessionStoreConfig) {
+    this.file = new JsonFile(config.filePath);
+  }
+
+  async save(session: WS402Session): Promise<void> {
+    const sessions = await this.load();
+    sessions.set(session.sessionId, JSON.parse(JSON.stringify(session)));
+    return this.persist();
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    const sessions = await this.load();
+    if (sessions.delete(sessionId)) {
+      return this.persist();
+    }
+  }
+
+  async list(): Promise<WS402Session[]> {
+    const sessions = await this.load();
+    return Array.from(sessions.values());
+  }
+
+  /**
+   * Read checkpoints from disk once, then serve them from memory
+   */
+  private async load(): Promise<Map<string, WS402Session>> {
+    if (this.sessions) return this.sessions;
+
+    const stored = await this.file.read([]);
+
+    // Another call may have finished loading while we were reading
+    if (!this.sessions) {
+      this.sessions = new Map(stored.map(session => [session.sessionId, session]));
+    }
+    return this.sessions;
+  }
+
+  private persist(): Promise<void> {
+    return this.file.write(() => Array.from(this.sessions!.values()));
+  }
+}
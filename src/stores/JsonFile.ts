@@ -0,0 +1,48 @@
+// src/stores/JsonFile.ts
+import { promises as fs } from 'fs';
+
+/**
+ * JSON file with serialized, atomic writes (write to a temp file, then rename),
+ * so a crash mid-write leaves the previous contents intact
+ */
+export class JsonFile<T> {
+  private filePath: string;
+  private writeChain: Promise<void> = Promise.resolve();
+  private queuedWrite: Promise<void> | null = null;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * Read and parse the file, or return the fallback if it does not exist yet
+   */
+  async read(fallback: T): Promise<T> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return fallback;
+      throw error;
+    }
+  }
+
+  /**
+   * Queue a write of the current state; writes requested while one is
+   * queued share it instead of queueing another
+   */
+  write(snapshot: () => T): Promise<void> {
+    if (this.queuedWrite) return this.queuedWrite;
+
+    const write = this.writeChain.then(async () => {
+      this.queuedWrite = null;
+
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(snapshot()), 'utf8');
+      await fs.rename(tempPath, this.filePath);
+    });
+
+    this.queuedWrite = write;
+    this.writeChain = write.catch(() => {});
+    return write;
+  }
+}
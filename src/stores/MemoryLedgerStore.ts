@@ -0,0 +1,48 @@
+// src/stores/MemoryLedgerStore.ts
+import { LedgerAccount, LedgerEntry, LedgerStore } from '../types';
+
+/**
+ * In-memory ledger store (default)
+ * Balances are lost on restart - use FileLedgerStore or a database-backed store in production
+ */
+export class MemoryLedgerStore implements LedgerStore {
+  private accounts: Map<string, LedgerAccount> = new Map();
+  private entries: Map<string, LedgerEntry[]> = new Map();
+
+  async getAccount(accountId: string): Promise<LedgerAccount | null> {
+    const account = this.accounts.get(accountId);
+    return account ? { ...account } : null;
+  }
+
+  async createAccount(account: LedgerAccount): Promise<boolean> {
+    if (this.accounts.has(account.accountId)) return false;
+
+    this.accounts.set(account.accountId, { ...account });
+    this.entries.set(account.accountId, []);
+    return true;
+  }
+
+  async adjustBalance(
+    accountId: string,
+    amount: number,
+    type: LedgerEntry['type']
+  ): Promise<LedgerEntry | null> {
+    const account = this.accounts.get(accountId);
+    if (!account || account.balance + amount < 0) return null;
+
+    account.balance += amount;
+    const entry: LedgerEntry = {
+      accountId,
+      type,
+      amount,
+      balance: account.balance,
+      timestamp: Date.now(),
+    };
+    this.entries.get(accountId)!.push(entry);
+    return entry;
+  }
+
+  async listEntries(accountId: string): Promise<LedgerEntry[]> {
+    return [...(this.entries.get(accountId) || [])];
+  }
+}
@@ -0,0 +1,59 @@
+// src/stores/MemoryPromoCodeStore.ts
+import { PromoCode, PromoCodeStore } from '../types';
+
+/**
+ * In-memory promo code store
+ * Usage counts are lost on restart - implement PromoCodeStore on your database to keep them.
+ */
+export class MemoryPromoCodeStore implements PromoCodeStore {
+  private codes: Map<string, PromoCode> = new Map();
+
+  constructor(codes: PromoCode[] = []) {
+    codes.forEach(code => this.add(code));
+  }
+
+  /**
+   * Add or replace a promo code
+   */
+  add(promo: PromoCode): void {
+    if (!promo.code) {
+      throw new Error('Promo code is required');
+    }
+    if (promo.percentOff !== undefined && !(promo.percentOff >= 0 && promo.percentOff <= 100)) {
+      throw new Error('percentOff must be between 0 and 100');
+    }
+
+    this.codes.set(promo.code, { ...promo, uses: promo.uses || 0 });
+  }
+
+  /**
+   * Remove a promo code
+   */
+  remove(code: string): void {
+    this.codes.delete(code);
+  }
+
+  async get(code: string): Promise<PromoCode | null> {
+    const promo = this.codes.get(code);
+    return promo ? { ...promo } : null;
+  }
+
+  async redeem(code: string): Promise<boolean> {
+    const promo = this.codes.get(code);
+    if (!promo) return false;
+
+    const expired = promo.expiresAt !== undefined && Date.now() > promo.expiresAt;
+    const usedUp = promo.maxUses !== undefined && (promo.uses || 0) >= promo.maxUses;
+    if (expired || usedUp) return false;
+
+    promo.uses = (promo.uses || 0) + 1;
+    return true;
+  }
+
+  async release(code: string): Promise<void> {
+    const promo = this.codes.get(code);
+    if (promo && promo.uses) {
+      promo.uses--;
+    }
+  }
+}
@@ -0,0 +1,22 @@
+// src/stores/MemoryProofRegistry.ts
+import { ProofRegistry } from '../types';
+
+/**
+ * In-memory registry of consumed payment proofs (default)
+ * Forgotten on restart - use FileProofRegistry to keep replay protection across restarts
+ */
+export class MemoryProofRegistry implements ProofRegistry {
+  private consumed: Map<string, number> = new Map();
+
+  async isConsumed(keys: string[]): Promise<boolean> {
+    return keys.some(key => this.consumed.has(key));
+  }
+
+  async consume(keys: string[]): Promise<boolean> {
+    if (keys.some(key => this.consumed.has(key))) return false;
+
+    const now = Date.now();
+    keys.forEach(key => this.consumed.set(key, now));
+    return true;
+  }
+}
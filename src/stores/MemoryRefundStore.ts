@@ -0,0 +1,33 @@
+// src/stores/MemoryRefundStore.ts
+import { RefundJob, RefundStore } from '../types';
+
+/**
+ * In-memory refund store (default)
+ * Pending refunds are lost with the process - use FileRefundStore so they are retried after a restart
+ */
+export class MemoryRefundStore implements RefundStore {
+  private jobs: Map<string, RefundJob> = new Map();
+
+  async add(job: RefundJob): Promise<boolean> {
+    if (this.jobs.has(job.id)) return false;
+
+    this.jobs.set(job.id, { ...job });
+    return true;
+  }
+
+  async update(job: RefundJob): Promise<void> {
+    this.jobs.set(job.id, { ...job });
+  }
+
+  async get(id: string): Promise<RefundJob | null> {
+    const job = this.jobs.get(id);
+    return job ? { ...job } : null;
+  }
+
+  async list(status?: RefundJob['status']): Promise<RefundJob[]> {
+    return Array.from(this.jobs.values())
+      .filter(job => !status || job.status === status)
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .map(job => ({ ...job }));
+  }
+}
@@ -0,0 +1,22 @@
+// src/stores/MemorySessionStore.ts
+import { SessionStore, WS402Session } from '../types';
+
+/**
+ * In-memory session store (default)
+ * Checkpoints are lost with the process - use FileSessionStore for crash recovery
+ */
+export class MemorySessionStore implements SessionStore {
+  private sessions: Map<string, WS402Session> = new Map();
+
+  async save(session: WS402Session): Promise<void> {
+    this.sessions.set(session.sessionId, JSON.parse(JSON.stringify(session)));
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    this.sessions.delete(sessionId);
+  }
+
+  async list(): Promise<WS402Session[]> {
+    return Array.from(this.sessions.values());
+  }
+}
@@ -1,5 +1,14 @@
 // src/types.ts
 
+/**
+ * How session usage is billed
+ * - 'per-second': elapsed wall-clock time (default)
+ * - 'per-byte': bytes transferred, both directions
+ * - 'per-message': messages sent and received
+ * - 'weighted': time, bytes and messages combined, each at its own rate
+ */
+export type PricingModel = 'per-second' | 'per-byte' | 'per-message' | 'weighted';
+
 /**
  * Configuration options for WS402
  */
@@ -10,18 +19,81 @@ export interface WS402Config {
   /** Price per second of resource usage (default fallback) */
   pricePerSecond?: number;
   
+  /** Pricing model used to meter sessions (default: 'per-second') */
+  pricingModel?: PricingModel;
+  
+  /** Price per byte transferred ('per-byte' and 'weighted' models) */
+  pricePerByte?: number;
+  
+  /** Price per message sent or received ('per-message' and 'weighted' models) */
+  pricePerMessage?: number;
+  
+  /** Application-defined meters and their price per unit (e.g. { tokens: 2 }) */
+  meters?: Record<string, number>;
+  
   /** Currency unit (e.g., 'wei', 'sat', 'usd') */
   currency?: string;
   
   /** Maximum session duration in seconds */
   maxSessionDuration?: number;
   
+  /** Priced resources - schemas, payments and sessions for a registered resource use its prices */
+  resources?: ResourceDefinition[];
+  
+  /** Tiers, time-of-day windows, volume discounts and free preview applied on top of per-second prices */
+  pricingRules?: PricingRules;
+  
+  /** Promo codes clients can apply when requesting a schema (default: none - promo codes disabled) */
+  promoCodeStore?: PromoCodeStore | null;
+  
+  /** Signs schema quotes; when set, payments must present a valid, unexpired quote */
+  quoteSigner?: QuoteSigner | null;
+  
+  /** Seconds a signed quote stays valid (default: 600) */
+  quoteTtl?: number;
+  
+  /** When to send a low_balance warning (either condition triggers it) */
+  lowBalanceThreshold?: LowBalanceThreshold;
+  
+  /** Seconds a session may stay open after its balance is exhausted so the client can top up (default: 0) */
+  gracePeriod?: number;
+  
+  /** Where session state is checkpointed for crash recovery (default: in-memory) */
+  sessionStore?: SessionStore;
+  
+  /** Registry of consumed payment proofs, used to reject replays (default: in-memory) */
+  proofRegistry?: ProofRegistry;
+  
+  /** Seconds a dropped session stays resumable with its resume token; 0 ends it on disconnect (default: 0) */
+  resumeWindow?: number;
+  
+  /** Where refunds are queued until paid, for retries and reconciliation (default: in-memory) */
+  refundStore?: RefundStore;
+  
+  /** Retry schedule for failed refunds */
+  refundRetry?: RefundRetryPolicy;
+  
+  /** Payment channel provider - lets clients open a channel and stream vouchers instead of prepaying */
+  channelProvider?: PaymentChannelProvider | null;
+  
+  /** Seconds a channel session may run ahead of its latest voucher before it is closed (default: 10) */
+  voucherTimeout?: number;
+  
   /** Function to extract user ID from request */
   userIdExtractor?: (req: any) => string;
   
+  /**
+   * Function to extract the resource a connection is for from its upgrade request
+   * (default: the `resourceId` query parameter). Quotes for other resources are rejected.
+   */
+  resourceIdExtractor?: (req: any) => string | undefined;
+  
   /** Callback when payment is verified */
   onPaymentVerified?: (session: WS402Session) => void;
   
+  /** Callback when a session balance is topped up */
+  onTopUp?: (session: WS402Session, payment: SessionPayment) => void;
+  
   /** Callback when refund is issued */
   onRefundIssued?: (session: WS402Session, refund: RefundDetails) => void;
   
@@ -29,6 +101,17 @@ export interface WS402Config {
   onSessionEnd?: (session: WS402Session) => void;
 }
 
+/**
+ * Low-balance warning thresholds
+ */
+export interface LowBalanceThreshold {
+  /** Warn when the remaining balance falls to this percentage of the paid amount */
+  percentage?: number;
+  
+  /** Warn when the estimated time left at the current burn rate falls to this many seconds */
+  secondsRemaining?: number;
+}
+
 /**
  * Active WebSocket session
  */
@@ -41,16 +124,94 @@ export interface WS402Session {
   elapsedSeconds: number;
   bytesTransferred: number;
   messageCount: number;
-  status: 'active' | 'ended';
+  status: 'active' | 'suspended' | 'ended';
+  
+  /** Name of the payment provider the session was paid through (verification, top-ups and refunds use it) */
+  paymentProvider: string;
+  
   paymentProof: any;
   
+  /** Every verified payment credited to the session (initial payment first, then top-ups) */
+  payments: SessionPayment[];
+  
   /** Session-specific price per second (can differ from global config) */
   pricePerSecond: number;
   
+  /** Pricing model the session is billed with */
+  pricingModel: PricingModel;
+  
+  /** Session-specific price per byte */
+  pricePerByte: number;
+  
+  /** Session-specific price per message */
+  pricePerMessage: number;
+  
+  /** Price per unit for each application-defined meter */
+  meterPrices: Record<string, number>;
+  
+  /** Units recorded so far for each application-defined meter */
+  meterUsage: Record<string, number>;
+  
+  /** Whether a low_balance warning was sent for the current balance */
+  lowBalanceNotified?: boolean;
+  
+  /** When the grace period after balance exhaustion ends (ms timestamp) */
+  graceEndsAt?: number;
+  
+  /** Token a reconnecting client presents to resume the session (resumable mode only) */
+  resumeToken?: string;
+  
+  /** Total ms spent disconnected in earlier suspensions (not billed) */
+  pausedDuration: number;
+  
+  /** When the session was suspended, while waiting for the client to reconnect */
+  suspendedAt?: number;
+  
+  /** Payment channel funding the session (channel mode only - no prepayment or refunds) */
+  channel?: SessionChannel;
+  
+  /** Session-specific maximum duration in seconds (default: config maxSessionDuration) */
+  maxSessionDuration?: number;
+  
+  /** Promo code applied to the session's payment - its discount is non-refundable credit in paidAmount */
+  promo?: AppliedPromo;
+  
+  /** Time billed so far under the pricing rules (only with pricingRules configured) */
+  timeBilling?: SessionTimeBilling;
+  
   /** Optional: Resource ID associated with this session */
   _resourceId?: string;
 }
 
+/**
+ * Payment channel state of a channel-mode session
+ */
+export interface SessionChannel extends PaymentChannel {
+  /** Latest accepted voucher (cumulative), or null before the first one */
+  voucher: any;
+  
+  /** Amount authorized by the latest voucher */
+  voucherAmount: number;
+  
+  /** When consumption first ran ahead of the latest voucher (ms timestamp) */
+  unpaidSince?: number;
+}
+
+/**
+ * A verified payment credited to a session
+ */
+export interface SessionPayment {
+  proof: any;
+  amount: number;
+  timestamp: number;
+  
+  /** Accepted before reaching finality - not refunded until its confirmation succeeds */
+  provisional?: boolean;
+  
+  /** Provisional payment whose transaction failed - neither credited nor refunded */
+  failed?: boolean;
+}
+
 /**
  * WS402 Schema sent to client via HTTP
  */
@@ -60,11 +221,25 @@ export interface WS402Schema {
   resourceId: string;
   websocketEndpoint: string;
   pricing: {
+    model: PricingModel;
     pricePerSecond: number;
+    pricePerByte: number;
+    pricePerMessage: number;
+    meters: Record<string, number>;
     currency: string;
     estimatedDuration: number;
+    estimatedBytes?: number;
+    estimatedMessages?: number;
+    estimatedMeters?: Record<string, number>;
     totalPrice: number;
+    
+    /** Pricing rules in effect and the estimated time cost under them (with pricingRules configured) */
+    rules?: PricingRulesSummary;
+    
+    /** Promo code requested with the schema; when applied, totalPrice is the discounted price */
+    promo?: SchemaPromo;
   };
+  /** Payment details, or one entry per provider (tagged with `provider`) when several are registered */
   paymentDetails: any;
   maxSessionDuration: number;
   
@@ -73,7 +248,215 @@ export interface WS402Schema {
     name?: string;
     type?: string;
     estimatedTime?: number;
+    metadata?: Record<string, any>;
   };
+  
+  /** Signed quote to send back with the payment proof (when quote signing is enabled) */
+  quote?: SignedQuote;
+}
+
+/**
+ * A resource in the WS402 catalog
+ * Prices and limits left unset fall back to the WS402 config.
+ */
+export interface ResourceDefinition {
+  resourceId: string;
+  
+  /** Price per second on this resource */
+  pricePerSecond?: number;
+  
+  /** Price per byte on this resource ('per-byte' and 'weighted' models) */
+  pricePerByte?: number;
+  
+  /** Price per message on this resource ('per-message' and 'weighted' models) */
+  pricePerMessage?: number;
+  
+  /** Longest session on this resource in seconds; schema estimates are capped to it */
+  maxSessionDuration?: number;
+  
+  /** Shortest duration in seconds a schema is priced for */
+  minDuration?: number;
+  
+  /** Display name and type, shown in the schema's resourceInfo */
+  name?: string;
+  type?: string;
+  
+  /** Application data, shown in the schema's resourceInfo */
+  metadata?: Record<string, any>;
+}
+
+/**
+ * The pricing a schema quoted - sessions paid against the schema's payment reference are billed at it
+ */
+export interface ResourceQuote {
+  resourceId: string;
+  pricePerSecond: number;
+  pricePerByte: number;
+  pricePerMessage: number;
+  maxSessionDuration: number;
+  totalPrice: number;
+  createdAt: number;
+  
+  /** Promo code the quoted totalPrice was discounted with */
+  promo?: AppliedPromo;
+}
+
+/**
+ * Schema pricing signed by the server
+ * The client returns it with its payment proof; the session is billed at these prices.
+ */
+export interface SignedQuote {
+  resourceId: string;
+  pricePerSecond: number;
+  pricePerByte: number;
+  pricePerMessage: number;
+  maxSessionDuration: number;
+  totalPrice: number;
+  currency: string;
+  
+  /** Payment references the quote was issued for - the payment must use one of them */
+  references: string[];
+  
+  /** Promo code the quoted totalPrice was discounted with */
+  promo?: AppliedPromo;
+  
+  /** Expiry (ms timestamp) */
+  expiresAt: number;
+  
+  /** Signature over the other fields (see QuoteSigner) */
+  signature: string;
+}
+
+/**
+ * Signs and verifies quotes
+ * The payload is a canonical string of the quote's fields.
+ */
+export interface QuoteSigner {
+  sign(payload: string): string;
+  verify(payload: string, signature: string): boolean;
+}
+
+/**
+ * Promo code issued by marketing
+ * Discounts combine and are capped at the schema's price.
+ */
+export interface PromoCode {
+  code: string;
+  
+  /** Percentage taken off the quoted price (e.g. 20 for 20% off) */
+  percentOff?: number;
+  
+  /** Fixed amount taken off the quoted price, in the WS402 currency unit */
+  credit?: number;
+  
+  /** Seconds of session time given for free, at the quoted price per second */
+  freeSeconds?: number;
+  
+  /** Most sessions the code can be used for (default: unlimited) */
+  maxUses?: number;
+  
+  /** Sessions the code has been used for */
+  uses?: number;
+  
+  /** Expiry (ms timestamp) */
+  expiresAt?: number;
+  
+  /** Resources the code applies to (default: all) */
+  resourceIds?: string[];
+}
+
+/**
+ * Storage for promo codes and their usage counts
+ */
+export interface PromoCodeStore {
+  get(code: string): Promise<PromoCode | null>;
+  
+  /**
+   * Atomically count a use of the code
+   * Resolves false, without counting, if the code is unknown, expired or used up.
+   */
+  redeem(code: string): Promise<boolean>;
+  
+  /**
+   * Give back a use counted by redeem (the payment it was for was rejected)
+   */
+  release(code: string): Promise<void>;
+}
+
+/**
+ * Promo code discount applied to a quote and the session paid against it
+ */
+export interface AppliedPromo {
+  code: string;
+  
+  /** Price before the discount */
+  listPrice: number;
+  
+  /** Amount taken off - credited to the session on top of the payment, never refunded */
+  discount: number;
+}
+
+/**
+ * Promo code as reported in a schema
+ */
+export interface SchemaPromo extends AppliedPromo {
+  applied: boolean;
+  
+  /** Why the code was not applied */
+  reason?: string;
+}
+
+/**
+ * Source of asset prices in a fiat currency
+ */
+export interface PriceOracle {
+  /**
+   * Price of one whole unit of the asset (e.g. 1 ETH) in the currency (e.g. USD)
+   */
+  getPrice(asset: string, currency: string): Promise<OraclePrice>;
+}
+
+export interface OraclePrice {
+  price: number;
+  
+  /** When the price was observed (ms timestamp) */
+  timestamp: number;
+}
+
+/**
+ * Fiat-denominated pricing for a payment provider
+ * WS402 amounts are read as minor units of the currency and converted at quote time.
+ */
+export interface FiatPricing {
+  oracle: PriceOracle;
+  
+  /** Currency WS402 prices are set in, e.g. 'USD' */
+  currency: string;
+  
+  /** Decimals of the WS402 amount unit - 2 means amounts are cents (default: 2) */
+  decimals?: number;
+  
+  /** Oldest oracle price in seconds a payment is quoted with (default: 300) */
+  maxRateAge?: number;
+  
+  /** Asset symbol to price (default: the native currency; required for token payments) */
+  asset?: string;
+}
+
+/**
+ * Conversion rate locked for one payment
+ */
+export interface LockedRate {
+  /** WS402 amount units per chain base unit (wei, lamports, token units) */
+  conversionRate: number;
+  asset: string;
+  currency: string;
+  
+  /** Oracle price of one whole asset unit */
+  price: number;
+  
+  /** When the oracle observed the price (ms timestamp) */
+  timestamp: number;
 }
 
 /**
@@ -87,6 +470,168 @@ export interface UsageUpdate {
   remainingBalance: number;
   bytesTransferred: number;
   messageCount: number;
+  breakdown: UsageBreakdown;
+  
+  /** Amount authorized by the latest voucher (payment channel sessions only) */
+  voucherAmount?: number;
+}
+
+/**
+ * Consumed amount split by what was metered
+ */
+export interface UsageBreakdown {
+  time: number;
+  bytes: number;
+  messages: number;
+  
+  /** Amount consumed per application-defined meter */
+  meters: Record<string, number>;
+  
+  /** Volume discount taken off the total (pricing rules only) */
+  discount?: number;
+  
+  /** Effective price per second right now, after tiers, windows and preview (pricing rules only) */
+  currentPricePerSecond?: number;
+}
+
+/**
+ * Pricing rules evaluated on top of the per-second price
+ * Tier and time window multipliers combine; the volume discount applies to the whole consumed amount.
+ */
+export interface PricingRules {
+  /** Seconds at the start of each session that are not billed for time */
+  freePreviewSeconds?: number;
+  
+  /** Rate multipliers by elapsed session time, e.g. half price after 10 minutes */
+  tiers?: PricingTier[];
+  
+  /** Rate multipliers by time of day and day of week (first matching window applies) */
+  timeWindows?: PricingWindow[];
+  
+  /** Discounts by a user's spend over volumePeriod, fixed when a session starts */
+  volumeDiscounts?: VolumeDiscount[];
+  
+  /** Seconds of past spend counted for volume discounts (default: 2592000 - 30 days) */
+  volumePeriod?: number;
+  
+  /** IANA time zone time windows are evaluated in (default: 'UTC') */
+  timezone?: string;
+}
+
+export interface PricingTier {
+  /** Elapsed seconds from which the tier applies */
+  afterSeconds: number;
+  
+  /** Multiplier on the session's price per second */
+  multiplier: number;
+}
+
+export interface PricingWindow {
+  name?: string;
+  
+  /** Days the window applies on (0 = Sunday ... 6 = Saturday; default: every day) */
+  days?: number[];
+  
+  /** Window start and end as 'HH:MM' - an end before the start runs past midnight */
+  start: string;
+  end: string;
+  
+  /** Multiplier on the session's price per second */
+  multiplier: number;
+}
+
+export interface VolumeDiscount {
+  /** Spend over volumePeriod from which the discount applies */
+  minSpend: number;
+  
+  /** Fraction taken off (0.1 = 10% off) */
+  discount: number;
+}
+
+/**
+ * Span of session time billed at one effective price per second
+ */
+export interface PriceSegment {
+  fromSecond: number;
+  toSecond: number;
+  pricePerSecond: number;
+  amount: number;
+}
+
+/**
+ * Pricing rules as described in a schema, with the estimated time cost segments
+ */
+export interface PricingRulesSummary {
+  freePreviewSeconds: number;
+  tiers: PricingTier[];
+  timeWindows: PricingWindow[];
+  volumeDiscounts: VolumeDiscount[];
+  timezone: string;
+  
+  /** Estimated time cost for a session starting now, before any volume discount */
+  segments: PriceSegment[];
+}
+
+/**
+ * Incremental time billing state of a session under pricing rules
+ */
+export interface SessionTimeBilling {
+  /** Elapsed seconds already billed */
+  billedSeconds: number;
+  
+  /** Time amount billed so far */
+  amount: number;
+  
+  /** Volume discount fixed at session start */
+  volumeDiscount: number;
+  
+  /** Effective price per second at the last update */
+  currentPricePerSecond: number;
+}
+
+/**
+ * Optional usage estimates used when quoting a schema
+ */
+export interface SchemaOptions {
+  /** Expected bytes transferred ('per-byte' and 'weighted' models) */
+  estimatedBytes?: number;
+  
+  /** Expected messages sent and received ('per-message' and 'weighted' models) */
+  estimatedMessages?: number;
+  
+  /** Expected units per application-defined meter */
+  estimatedMeters?: Record<string, number>;
+  
+  /** Promo code to discount the schema with (requestSchema only) */
+  promoCode?: string;
+}
+
+/**
+ * Low-balance warning sent to client and emitted as the 'low_balance' event
+ */
+export interface LowBalanceWarning {
+  type: 'low_balance';
+  sessionId: string;
+  remainingBalance: number;
+  estimatedSecondsRemaining: number | null;
+  gracePeriod: number;
+}
+
+/**
+ * Retry schedule for failed refunds - the delay doubles after each failed attempt
+ */
+export interface RefundRetryPolicy {
+  /** Attempts before a refund is moved to the dead-letter list (default: 8) */
+  maxAttempts?: number;
+  
+  /** Delay in ms before the first retry (default: 5000) */
+  baseDelay?: number;
+  
+  /** Longest delay in ms between retries (default: 3600000) */
+  maxDelay?: number;
+  
+  /** How often in ms due retries are checked for (default: 5000) */
+  pollInterval?: number;
 }
 
 /**
@@ -109,6 +654,12 @@ export interface PaymentProvider {
    */
   generatePaymentDetails(amount: number): any;
   
+  /**
+   * Optional: create payment details asynchronously (e.g. an invoice on a remote node)
+   * Used instead of generatePaymentDetails by WS402.requestSchema() and top-ups
+   */
+  requestPaymentDetails?(amount: number, resourceId?: string, estimatedDuration?: number): Promise<any>;
+  
   /**
    * Verify that a payment proof is valid
    */
@@ -116,8 +667,236 @@ export interface PaymentProvider {
   
   /**
    * Issue a refund to the user
+   * Resolves only once the refund is paid; rejects with ManualRefundRequiredError
+   * when it will not be paid automatically (it is then dead-lettered, not retried).
    */
   issueRefund(proof: any, amount: number): Promise<void>;
+  
+  /**
+   * Optional: refund several payments together, in one transaction where the chain allows it
+   * Resolves with the refunds that could not be paid; rejects if none were paid.
+   */
+  issueBatchRefund?(refunds: BatchRefund[]): Promise<BatchRefund[]>;
+  
+  /**
+   * Optional: refund proof for a payout to a recipient that made no payment
+   * (e.g. a ledger withdrawal), at the conversion rate current now
+   */
+  payoutProof?(recipient: string): Promise<any>;
+}
+
+/**
+ * One refund in a batch
+ */
+export interface BatchRefund {
+  proof: any;
+  amount: number;
+}
+
+/**
+ * A payment channel opened by a client
+ */
+export interface PaymentChannel {
+  channelId: string;
+  
+  /** Payer address or public key that signs vouchers */
+  payer: string;
+  
+  /** Maximum amount the channel can pay, in session units */
+  capacity: number;
+}
+
+/**
+ * Channel open verification result
+ */
+export interface ChannelVerification {
+  valid: boolean;
+  channel?: PaymentChannel;
+  reason?: string;
+}
+
+/**
+ * Payment channel provider interface - clients stream cumulative signed
+ * vouchers and only the latest one is redeemed when the session ends
+ */
+export interface PaymentChannelProvider {
+  /**
+   * Verify a client's channel open request (signature, and escrow if configured)
+   */
+  openChannel(request: any): Promise<ChannelVerification>;
+  
+  /**
+   * Verify a voucher for the channel; amount is the cumulative amount it authorizes
+   */
+  verifyVoucher(channel: PaymentChannel, voucher: any): Promise<PaymentVerification>;
+  
+  /**
+   * Redeem a voucher for the amount actually consumed (at most the voucher amount)
+   */
+  redeemVoucher(channel: PaymentChannel, voucher: any, amount: number): Promise<void>;
+}
+
+/**
+ * Session store interface - checkpoints session state so unused balances
+ * can be refunded after a crash (see WS402.recoverSessions)
+ */
+export interface SessionStore {
+  /**
+   * Create or replace the checkpoint for a session
+   */
+  save(session: WS402Session): Promise<void>;
+  
+  /**
+   * Remove a settled session
+   */
+  delete(sessionId: string): Promise<void>;
+  
+  /**
+   * List every checkpointed (unsettled) session
+   */
+  list(): Promise<WS402Session[]>;
+}
+
+/**
+ * A queued refund
+ * - 'pending': waiting for its first attempt or a retry
+ * - 'held': refunds a provisional payment that is not confirmed yet
+ * - 'settled': paid by the provider, or marked settled by an operator
+ * - 'dead': retries exhausted - needs manual handling
+ * - 'cancelled': the provisional payment it refunds failed - nothing to pay
+ */
+export interface RefundJob {
+  /** Idempotency key (session ID and payment) - each payment is refunded at most once */
+  id: string;
+  sessionId: string;
+  
+  /** Name of the payment provider that issues the refund */
+  provider: string;
+  
+  proof: any;
+  amount: number;
+  reason: string;
+  status: 'pending' | 'held' | 'settled' | 'dead' | 'cancelled';
+  attempts: number;
+  
+  /** When the next attempt is due (ms timestamp) */
+  nextAttemptAt: number;
+  
+  /** Error message of the last failed attempt */
+  lastError?: string;
+  
+  createdAt: number;
+  settledAt?: number;
+  
+  /** Operator note, set when a refund is marked settled by hand */
+  note?: string;
+}
+
+/**
+ * Refund store interface - persists queued refunds so failed ones are retried
+ * across restarts and can be reconciled
+ */
+export interface RefundStore {
+  /**
+   * Queue a refund
+   * Resolves false, without changing anything, if a refund with the same ID exists
+   */
+  add(job: RefundJob): Promise<boolean>;
+  
+  /**
+   * Replace a queued refund
+   */
+  update(job: RefundJob): Promise<void>;
+  
+  /**
+   * Get a refund, or null if it does not exist
+   */
+  get(id: string): Promise<RefundJob | null>;
+  
+  /**
+   * List refunds, optionally only those with a status, oldest first
+   */
+  list(status?: RefundJob['status']): Promise<RefundJob[]>;
+}
+
+/**
+ * Registry of payment proofs already used to open or top up a session
+ * Keys identify the on-chain payment (tx hash / signature) and the payment reference.
+ */
+export interface ProofRegistry {
+  /**
+   * Check whether any of the keys has already been consumed
+   */
+  isConsumed(keys: string[]): Promise<boolean>;
+  
+  /**
+   * Atomically mark the keys as consumed
+   * Resolves false, without marking anything, if any key was already consumed
+   */
+  consume(keys: string[]): Promise<boolean>;
+}
+
+/**
+ * Prepaid credit account held by LedgerPaymentProvider
+ */
+export interface LedgerAccount {
+  accountId: string;
+  
+  /** Available credit, in the same units as session amounts */
+  balance: number;
+  
+  /** SHA-256 hash of the account token that authorizes spending and withdrawals */
+  tokenHash: string;
+  
+  createdAt: number;
+}
+
+/**
+ * A balance change recorded in the ledger
+ * - 'deposit': on-chain payment credited
+ * - 'debit': credit drawn to fund a session
+ * - 'credit': unused session balance returned
+ * - 'withdrawal': credit paid out on-chain
+ */
+export interface LedgerEntry {
+  accountId: string;
+  type: 'deposit' | 'debit' | 'credit' | 'withdrawal';
+  
+  /** Signed change to the balance (negative for debits and withdrawals) */
+  amount: number;
+  
+  /** Balance after the change */
+  balance: number;
+  
+  timestamp: number;
+}
+
+/**
+ * Ledger store interface - holds credit accounts for LedgerPaymentProvider
+ */
+export interface LedgerStore {
+  /**
+   * Get an account, or null if it does not exist
+   */
+  getAccount(accountId: string): Promise<LedgerAccount | null>;
+  
+  /**
+   * Create an account
+   * Resolves false, without changing anything, if the account already exists
+   */
+  createAccount(account: LedgerAccount): Promise<boolean>;
+  
+  /**
+   * Atomically apply a signed change to an account balance and record it
+   * Resolves null, without changing anything, if the account does not exist
+   * or the balance would go negative
+   */
+  adjustBalance(accountId: string, amount: number, type: LedgerEntry['type']): Promise<LedgerEntry | null>;
+  
+  /**
+   * List the recorded changes of an account, oldest first
+   */
+  listEntries(accountId: string): Promise<LedgerEntry[]>;
 }
 
 /**
@@ -130,6 +909,30 @@ export interface PaymentVerification {
   
   /** Optional: Resource-specific price if payment verification includes it */
   pricePerSecond?: number;
+  
+  /**
+   * Set when the payment was accepted provisionally, before reaching the required finality
+   * Settles once it does; resolves invalid (never rejects) if the transaction fails or is dropped.
+   */
+  confirmation?: Promise<PaymentVerification>;
+}
+
+/**
+ * How final a payment must be before a provider accepts it, by amount
+ * (confirmations on EVM chains, commitment on Solana)
+ */
+export interface FinalityPolicy<T> {
+  /** Finality for amounts above every tier (default: the provider's confirmations / commitment) */
+  default?: T;
+  
+  /** Finality for amounts up to maxAmount - the lowest tier the amount fits in applies */
+  tiers?: Array<{ maxAmount: number; finality: T }>;
+  
+  /**
+   * Payments up to this amount start the session as soon as the transaction is seen,
+   * before it reaches the required finality; the session is terminated if it then fails (default: 0 - off)
+   */
+  provisionalMaxAmount?: number;
 }
 
 /**
@@ -138,6 +941,9 @@ export interface PaymentVerification {
 export interface WS402MiddlewareOptions {
   resourceIdExtractor?: (req: any) => string;
   estimatedDurationExtractor?: (req: any) => number;
-  pricePerSecondExtractor?: (req: any) => number;
+  pricePerSecondExtractor?: (req: any) => number | undefined;
+  estimatedBytesExtractor?: (req: any) => number | undefined;
+  estimatedMessagesExtractor?: (req: any) => number | undefined;
+  promoCodeExtractor?: (req: any) => string | undefined;
   schemaEndpoint?: string;
 }
\ No newline at end of file
@@ -0,0 +1,168 @@
+import { generateKeyPairSync, KeyObject, sign } from 'crypto';
+import { ethers } from 'ethers';
+import { PublicKey } from '@solana/web3.js';
+import { EvmChannelProvider } from '../src/providers/EvmChannelProvider';
+import { SolanaChannelProvider } from '../src/providers/SolanaChannelProvider';
+import { PaymentChannel } from '../src/types';
+import { closeSession, startServer, TestClient, TestServer } from './helpers';
+
+describe('payment channels', () => {
+  describe('EvmChannelProvider', () => {
+    const payer = ethers.Wallet.createRandom();
+    const channelId = ethers.id('channel-1');
+    let provider: EvmChannelProvider;
+
+    beforeEach(() => {
+      provider = new EvmChannelProvider({ chainId: 8453, verifyChannel: async () => true, redeem: async () => {} });
+    });
+
+    async function signChannel(wallet: ethers.HDNodeWallet, capacity: string): Promise<any> {
+      const channel = { channelId, payer: wallet.address, capacity };
+      return { ...channel, signature: await wallet.signTypedData(provider.getDomain(), EvmChannelProvider.CHANNEL_TYPES, channel) };
+    }
+
+    async function signVoucher(wallet: ethers.HDNodeWallet, amount: string, id = channelId): Promise<any> {
+      const voucher = { channelId: id, amount };
+      return { ...voucher, signature: await wallet.signTypedData(provider.getDomain(), EvmChannelProvider.VOUCHER_TYPES, voucher) };
+    }
+
+    it('opens a channel signed by its payer and accepts its vouchers', async () => {
+      const opened = await provider.openChannel(await signChannel(payer, '1000'));
+
+      expect(opened).toMatchObject({ valid: true, channel: { channelId, payer: payer.address, capacity: 1000 } });
+      expect(await provider.verifyVoucher(opened.channel!, await signVoucher(payer, '400'))).toEqual({ valid: true, amount: 400 });
+    });
+
+    it('rejects a channel or voucher signed by another key', async () => {
+      const other = ethers.Wallet.createRandom();
+      const forged = { ...(await signChannel(other, '1000')), payer: payer.address };
+      const channel: PaymentChannel = { channelId, payer: payer.address, capacity: 1000 };
+
+      expect(await provider.openChannel(forged)).toMatchObject({ valid: false, reason: 'Channel not signed by payer' });
+      expect(await provider.verifyVoucher(channel, await signVoucher(other, '400')))
+        .toMatchObject({ valid: false, reason: 'Voucher not signed by payer' });
+    });
+
+    it('rejects a voucher for another channel', async () => {
+      const channel: PaymentChannel = { channelId, payer: payer.address, capacity: 1000 };
+
+      expect(await provider.verifyVoucher(channel, await signVoucher(payer, '400', ethers.id('channel-2'))))
+        .toMatchObject({ valid: false, reason: 'Voucher is for another channel' });
+    });
+
+    it('rejects a channel that is not funded on-chain', async () => {
+      const unfunded = new EvmChannelProvider({ chainId: 8453, verifyChannel: async () => false, redeem: async () => {} });
+
+      expect(await unfunded.openChannel(await signChannel(payer, '1000'))).toMatchObject({ valid: false, reason: 'Channel is not funded' });
+    });
+  });
+
+  describe('SolanaChannelProvider', () => {
+    let payer: string;
+    let privateKey: KeyObject;
+    let provider: SolanaChannelProvider;
+
+    beforeEach(() => {
+      const keys = generateKeyPairSync('ed25519');
+      privateKey = keys.privateKey;
+      payer = new PublicKey(Buffer.from(keys.publicKey.export({ format: 'jwk' }).x!, 'base64url')).toBase58();
+      provider = new SolanaChannelProvider({ verifyChannel: async () => true, redeem: async () => {} });
+    });
+
+    function signMessage(message: string, key: KeyObject = privateKey): string {
+      return sign(null, Buffer.from(message, 'utf8'), key).toString('base64');
+    }
+
+    it('opens a channel signed by its payer and accepts its vouchers', async () => {
+      const opened = await provider.openChannel({
+        channelId: 'channel-1',
+        payer,
+        capacity: '1000',
+        signature: signMessage(SolanaChannelProvider.channelMessage('channel-1', payer, '1000')),
+      });
+
+      expect(opened).toMatchObject({ valid: true, channel: { channelId: 'channel-1', payer, capacity: 1000 } });
+      expect(await provider.verifyVoucher(opened.channel!, {
+        channelId: 'channel-1',
+        amount: '400',
+        signature: signMessage(SolanaChannelProvider.voucherMessage('channel-1', '400')),
+      })).toEqual({ valid: true, amount: 400 });
+    });
+
+    it('rejects a voucher signed by another key or for another amount', async () => {
+      const channel: PaymentChannel = { channelId: 'channel-1', payer, capacity: 1000 };
+      const other = generateKeyPairSync('ed25519').privateKey;
+
+      expect(await provider.verifyVoucher(channel, {
+        channelId: 'channel-1',
+        amount: '400',
+        signature: signMessage(SolanaChannelProvider.voucherMessage('channel-1', '400'), other),
+      })).toMatchObject({ valid: false, reason: 'Voucher not signed by payer' });
+
+      expect(await provider.verifyVoucher(channel, {
+        channelId: 'channel-1',
+        amount: '900',
+        signature: signMessage(SolanaChannelProvider.voucherMessage('channel-1', '400')),
+      })).toMatchObject({ valid: false, reason: 'Voucher not signed by payer' });
+    });
+  });
+
+  describe('with WS402', () => {
+    const payer = ethers.Wallet.createRandom();
+    const channelId = ethers.id('channel-1');
+    const provider = new EvmChannelProvider({ chainId: 8453, verifyChannel: async () => true, redeem: async () => {} });
+    let server: TestServer;
+
+    afterEach(() => server.close());
+
+    async function signVoucher(amount: string): Promise<any> {
+      const voucher = { channelId, amount };
+      return { ...voucher, signature: await payer.signTypedData(provider.getDomain(), EvmChannelProvider.VOUCHER_TYPES, voucher) };
+    }
+
+    /**
+     * Open a channel session with a capacity of 1000, returning the client
+     */
+    async function openChannel(): Promise<TestClient> {
+      server = await startServer({ pricePerSecond: 1, channelProvider: provider });
+      const channel = { channelId, payer: payer.address, capacity: '1000' };
+      const signature = await payer.signTypedData(provider.getDomain(), EvmChannelProvider.CHANNEL_TYPES, channel);
+
+      const client = new TestClient(server.url);
+      await client.opened();
+      client.send({ type: 'channel_open', channel: { ...channel, signature } });
+      await client.next('session_started');
+      return client;
+    }
+
+    /**
+     * Send a voucher and wait for the server's answer
+     */
+    async function sendVoucher(client: TestClient, amount: string): Promise<any> {
+      const voucher = await signVoucher(amount);
+      client.send({ type: 'voucher', voucher });
+      return client.next(['voucher_accepted', 'voucher_rejected'], message => message.amount === Number(amount) || !!message.reason);
+    }
+
+    it('rejects a voucher lower than the previous one', async () => {
+      const client = await openChannel();
+
+      expect(await sendVoucher(client, '500')).toMatchObject({ type: 'voucher_accepted', amount: 500 });
+      expect(await sendVoucher(client, '300')).toMatchObject({
+        type: 'voucher_rejected',
+        reason: 'Voucher amount must exceed the previous voucher',
+      });
+      await closeSession(server, client);
+    });
+
+    it('rejects a voucher over the channel deposit', async () => {
+      const client = await openChannel();
+
+      expect(await sendVoucher(client, '1001')).toMatchObject({
+        type: 'voucher_rejected',
+        reason: 'Voucher exceeds channel capacity',
+      });
+      await closeSession(server, client);
+    });
+  });
+});
@@ -0,0 +1,274 @@
+import { ethers } from 'ethers';
+import { BasePaymentProvider } from '../src/providers/BasePaymentProvider';
+import { EvmPaymentProvider, EvmPaymentProviderConfig } from '../src/providers/EvmPaymentProvider';
+import { EvmTransactionSender } from '../src/providers/EvmTransactionSender';
+
+describe('EvmPaymentProvider', () => {
+  const merchant = ethers.Wallet.createRandom();
+  const payer = ethers.Wallet.createRandom().address;
+
+  afterEach(() => jest.restoreAllMocks());
+
+  function createProvider(config: Partial<EvmPaymentProviderConfig> = {}): EvmPaymentProvider {
+    return new EvmPaymentProvider({
+      rpcEndpoint: 'http://127.0.0.1:8545',
+      chainId: 1,
+      merchantWallet: merchant.address,
+      conversionRate: 1e-12,
+      ...config,
+    });
+  }
+
+  /**
+   * Serve a mined transaction from getTransaction, returning the wait() mock
+   */
+  function mineTransaction(tx: { to: string; data: string; value?: bigint }, receipt: any = { status: 1, logs: [] }): jest.Mock {
+    const wait = jest.fn().mockResolvedValue(receipt);
+    jest.spyOn(ethers.JsonRpcProvider.prototype, 'getTransaction').mockResolvedValue({
+      hash: '0x' + '11'.repeat(32),
+      from: payer,
+      value: 0n,
+      ...tx,
+      wait,
+    } as any);
+    return wait;
+  }
+
+  describe('payment references', () => {
+    it('rejects a transfer without the reference calldata', async () => {
+      const provider = createProvider();
+      const details = provider.generatePaymentDetails(10);
+      mineTransaction({ to: merchant.address, data: '0x', value: BigInt(details.amountWei) });
+
+      expect(await provider.verifyPayment({ txHash: '0x01', reference: details.reference }))
+        .toMatchObject({ valid: false, reason: 'Payment reference not found in transaction' });
+    });
+
+    it('rejects a transfer made for another payment', async () => {
+      const provider = createProvider();
+      const details = provider.generatePaymentDetails(10);
+      const other = provider.generatePaymentDetails(10);
+      mineTransaction({ to: merchant.address, data: other.data, value: BigInt(details.amountWei) });
+
+      expect(await provider.verifyPayment({ txHash: '0x01', reference: details.reference }))
+        .toMatchObject({ valid: false, reason: 'Payment reference not found in transaction' });
+    });
+
+    it('accepts a transfer carrying its reference, recording the payer for refunds', async () => {
+      const provider = createProvider();
+      const details = provider.generatePaymentDetails(10);
+      expect(details.data).toBe(ethers.hexlify(ethers.toUtf8Bytes(details.reference)));
+      mineTransaction({ to: merchant.address, data: details.data, value: BigInt(details.amountWei) });
+
+      const proof: any = { txHash: '0x01', reference: details.reference };
+      expect(await provider.verifyPayment(proof)).toEqual({ valid: true, amount: 10 });
+      expect(proof.senderAddress).toBe(payer);
+    });
+  });
+
+  describe('ERC20 payments', () => {
+    const token = ethers.Wallet.createRandom().address;
+    const erc20 = new ethers.Interface(['function transfer(address to, uint256 amount) returns (bool)']);
+    const transferTopic = ethers.id('Transfer(address,address,uint256)');
+
+    /**
+     * transfer() calldata to the merchant, with the payment's reference appended
+     */
+    function transferData(units: bigint, referenceData: string): string {
+      return erc20.encodeFunctionData('transfer', [merchant.address, units]) + referenceData.slice(2);
+    }
+
+    function transferLog(from: string, units: bigint): any {
+      return {
+        address: token,
+        topics: [transferTopic, ethers.zeroPadValue(from, 32), ethers.zeroPadValue(merchant.address, 32)],
+        data: ethers.toBeHex(units, 32),
+      };
+    }
+
+    it('quotes in token units, scaling the rate by the token decimals', () => {
+      // 1 native unit per whole token, 6 decimals
+      const provider = createProvider({ erc20Token: token, erc20Decimals: 6, conversionRate: 1 });
+
+      expect(provider.generatePaymentDetails(5)).toMatchObject({
+        amountUnits: '5000000',
+        amountToken: '5.0',
+        tokenDecimals: 6,
+        tokenAddress: token,
+      });
+    });
+
+    it('reads the decimals from the token when not configured', async () => {
+      const call = jest.spyOn(ethers.JsonRpcProvider.prototype, 'call')
+        .mockResolvedValue(ethers.AbiCoder.defaultAbiCoder().encode(['uint8'], [18]));
+      const provider = createProvider({ erc20Token: token, conversionRate: 1 });
+
+      const details = await provider.requestPaymentDetails(2);
+
+      expect(details).toMatchObject({ amountUnits: '2000000000000000000', tokenDecimals: 18 });
+      expect(call).toHaveBeenCalledWith(expect.objectContaining({ to: token }));
+    });
+
+    it('decodes the transferred amount from the Transfer log and refunds its sender', async () => {
+      const provider = createProvider({ erc20Token: token, erc20Decimals: 6, conversionRate: 1 });
+      const details = provider.generatePaymentDetails(5);
+      // The holder's transfer, submitted by a relayer
+      const holder = ethers.Wallet.createRandom().address;
+      mineTransaction(
+        { to: token, data: transferData(5000000n, details.data) },
+        { status: 1, logs: [transferLog(holder, 5000000n)] }
+      );
+
+      const proof: any = { txHash: '0x01', reference: details.reference };
+      expect(await provider.verifyPayment(proof)).toEqual({ valid: true, amount: 5 });
+      expect(proof).toMatchObject({ senderAddress: holder, conversionRate: 1e-6 });
+    });
+
+    it('rejects a Transfer log for less than the quoted amount', async () => {
+      const provider = createProvider({ erc20Token: token, erc20Decimals: 6, conversionRate: 1 });
+      const details = provider.generatePaymentDetails(5);
+      mineTransaction(
+        { to: token, data: transferData(5000000n, details.data) },
+        { status: 1, logs: [transferLog(payer, 2500000n)] }
+      );
+
+      expect(await provider.verifyPayment({ txHash: '0x01', reference: details.reference })).toMatchObject({
+        valid: false,
+        reason: 'Amount mismatch. Expected: 5.0 tokens, Received: 2.5 tokens',
+      });
+    });
+
+    it('decodes transfer() calldata for payments accepted before they are mined', async () => {
+      const provider = createProvider({
+        erc20Token: token,
+        erc20Decimals: 6,
+        conversionRate: 1,
+        finality: { provisionalMaxAmount: 10 },
+      });
+      const underpaid = provider.generatePaymentDetails(5);
+      mineTransaction({ to: token, data: transferData(4000000n, underpaid.data) });
+
+      expect(await provider.verifyPayment({ txHash: '0x01', reference: underpaid.reference })).toMatchObject({
+        valid: false,
+        reason: 'Amount mismatch. Expected: 5000000 token units, Received: 4000000 token units',
+      });
+
+      const paid = provider.generatePaymentDetails(5);
+      mineTransaction({ to: token, data: transferData(5000000n, paid.data) });
+
+      const verification = await provider.verifyPayment({ txHash: '0x01', reference: paid.reference });
+      expect(verification).toMatchObject({ valid: true, amount: 5, confirmation: expect.any(Promise) });
+    });
+  });
+
+  describe('ERC20 refunds', () => {
+    const token = ethers.Wallet.createRandom().address;
+    const erc20 = new ethers.Interface([
+      'function balanceOf(address owner) view returns (uint256)',
+      'function transfer(address to, uint256 amount) returns (bool)',
+    ]);
+    let send: jest.SpyInstance;
+
+    /**
+     * Provider holding the token balance, with the chain calls a refund makes mocked
+     */
+    function createRefundingProvider(tokenBalance: bigint): EvmPaymentProvider {
+      jest.spyOn(ethers.JsonRpcProvider.prototype, 'call')
+        .mockResolvedValue(erc20.encodeFunctionResult('balanceOf', [tokenBalance]));
+      jest.spyOn(ethers.JsonRpcProvider.prototype, 'estimateGas').mockResolvedValue(50000n);
+      jest.spyOn(ethers.JsonRpcProvider.prototype, 'getFeeData').mockResolvedValue(new ethers.FeeData(1n, 1n, 1n));
+      jest.spyOn(ethers.JsonRpcProvider.prototype, 'getBalance').mockResolvedValue(10n ** 18n);
+      send = jest.spyOn(EvmTransactionSender.prototype, 'send')
+        .mockResolvedValue({ status: 1, hash: '0x01', blockNumber: 1, gasUsed: 50000n } as any);
+
+      return createProvider({
+        merchantPrivateKey: merchant.privateKey,
+        erc20Token: token,
+        erc20Decimals: 6,
+        conversionRate: 1,
+      });
+    }
+
+    it('refunds in the token with a transfer() call', async () => {
+      const provider = createRefundingProvider(10000000n);
+
+      await provider.issueRefund({ senderAddress: payer, conversionRate: 1e-6 }, 2.5);
+
+      const tx = send.mock.calls[0][0];
+      expect(tx.to).toBe(token);
+      expect(tx.value).toBeUndefined();
+      expect(erc20.decodeFunctionData('transfer', tx.data).toArray()).toEqual([payer, 2500000n]);
+    });
+
+    it('fails the refund when the merchant holds too few tokens', async () => {
+      const provider = createRefundingProvider(1000000n);
+
+      await expect(provider.issueRefund({ senderAddress: payer, conversionRate: 1e-6 }, 2.5))
+        .rejects.toThrow('Insufficient token balance in merchant wallet');
+      expect(send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('chains', () => {
+    const polygon: Partial<EvmPaymentProviderConfig> = {
+      chainId: 137,
+      network: 'polygon',
+      chainName: 'Polygon',
+      nativeCurrency: 'POL',
+      confirmations: 12,
+      explorerTxUrl: 'https://polygonscan.com/tx/{txHash}',
+      explorerAddressUrl: 'https://polygonscan.com/address/{address}',
+    };
+
+    it('quotes on the configured chain in its native currency', () => {
+      const details = createProvider(polygon).generatePaymentDetails(10);
+
+      expect(details).toMatchObject({
+        type: 'evm',
+        network: 'polygon',
+        chainId: 137,
+        currency: 'POL',
+        recipientUrl: `https://polygonscan.com/address/${merchant.address}`,
+      });
+      expect(details.instructions.step1).toBe('Connect wallet to Polygon network');
+      expect(details.instructions.step2).toContain(' POL to ');
+    });
+
+    it('waits for the configured confirmations and links verified payments to the explorer', async () => {
+      const provider = createProvider(polygon);
+      const details = provider.generatePaymentDetails(10);
+      const wait = mineTransaction({ to: merchant.address, data: details.data, value: BigInt(details.amountWei) });
+
+      expect(await provider.verifyPayment({ txHash: '0x01', reference: details.reference })).toMatchObject({ valid: true });
+      expect(wait).toHaveBeenCalledWith(12, undefined);
+      expect(console.log).toHaveBeenCalledWith(
+        '[EvmPaymentProvider] Payment verified successfully',
+        expect.objectContaining({ explorer: 'https://polygonscan.com/tx/0x01' })
+      );
+    });
+
+    it('defaults the network name from the chain id', () => {
+      expect(createProvider({ chainId: 42161 }).getConnectionInfo()).toMatchObject({
+        network: 'chain-42161',
+        chainName: 'chain-42161',
+        nativeCurrency: 'ETH',
+        confirmations: 1,
+      });
+      expect(() => createProvider({ chainId: 0 })).toThrow('chainId must be a positive integer');
+    });
+
+    it.each([
+      ['base', 8453, 'https://basescan.org'],
+      ['base-sepolia', 84532, 'https://sepolia.basescan.org'],
+    ] as const)('presets %s for BasePaymentProvider', (network, chainId, explorer) => {
+      const provider = new BasePaymentProvider({ rpcEndpoint: 'http://127.0.0.1:8545', merchantWallet: merchant.address, network });
+
+      expect(provider.getConnectionInfo()).toMatchObject({ network, chainId, nativeCurrency: 'ETH' });
+      expect(provider.generatePaymentDetails(10)).toMatchObject({
+        type: 'base',
+        chainId,
+        recipientUrl: `${explorer}/address/${merchant.address}`,
+      });
+    });
+  });
+});
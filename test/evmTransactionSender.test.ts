@@ -0,0 +1,99 @@
+import { ethers } from 'ethers';
+import { EvmTransactionSender } from '../src/providers/EvmTransactionSender';
+
+describe('EvmTransactionSender', () => {
+  const recipient = ethers.Wallet.createRandom().address;
+  let wallet: ethers.Wallet;
+  let provider: ethers.JsonRpcProvider;
+  let pendingNonce: jest.Mock;
+  let minedNonce: number;
+  let sendTransaction: jest.SpyInstance;
+  let mined: Set<string>;
+
+  beforeEach(() => {
+    provider = new ethers.JsonRpcProvider('http://127.0.0.1:8545');
+    wallet = new ethers.Wallet(ethers.Wallet.createRandom().privateKey, provider);
+    pendingNonce = jest.fn().mockResolvedValue(5);
+    minedNonce = 5;
+    mined = new Set();
+
+    jest.spyOn(provider, 'getTransactionCount').mockImplementation(async (_, blockTag) => (
+      blockTag === 'pending' ? pendingNonce() : minedNonce
+    ));
+    jest.spyOn(provider, 'getFeeData').mockResolvedValue(new ethers.FeeData(null, 100n, 10n));
+    jest.spyOn(provider, 'getTransactionReceipt').mockImplementation(async hash => (
+      mined.has(hash) ? { hash, status: 1 } as any : null
+    ));
+    // Every transaction is mined as soon as it is sent, unless a test says otherwise
+    sendTransaction = jest.spyOn(wallet, 'sendTransaction').mockImplementation(async (request: any) => {
+      const hash = ethers.id(`${request.nonce}:${request.maxFeePerGas}`);
+      mined.add(hash);
+      return { hash, nonce: request.nonce } as any;
+    });
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('sends concurrent transactions in call order with consecutive nonces', async () => {
+    const sender = new EvmTransactionSender(wallet);
+
+    await Promise.all([1n, 2n, 3n].map(value => sender.send({ to: recipient, value })));
+
+    expect(sendTransaction.mock.calls.map(([request]) => [request.value, request.nonce])).toEqual([
+      [1n, 5],
+      [2n, 6],
+      [3n, 7],
+    ]);
+    expect(pendingNonce).toHaveBeenCalledTimes(1);
+  });
+
+  it('resyncs the nonce from the chain when the node reports it used', async () => {
+    const sender = new EvmTransactionSender(wallet);
+    pendingNonce.mockResolvedValueOnce(5).mockResolvedValueOnce(8);
+    sendTransaction.mockImplementationOnce(async () => {
+      throw Object.assign(new Error('nonce too low'), { code: 'NONCE_EXPIRED' });
+    });
+
+    await sender.send({ to: recipient, value: 1n });
+
+    expect(sendTransaction.mock.calls.map(([request]) => request.nonce)).toEqual([5, 8]);
+  });
+
+  it('resyncs the nonce after a send that failed for another reason', async () => {
+    const sender = new EvmTransactionSender(wallet);
+    sendTransaction.mockImplementationOnce(async () => {
+      throw Object.assign(new Error('insufficient funds'), { code: 'INSUFFICIENT_FUNDS' });
+    });
+
+    await expect(sender.send({ to: recipient, value: 1n })).rejects.toThrow('insufficient funds');
+    await sender.send({ to: recipient, value: 2n });
+
+    expect(pendingNonce).toHaveBeenCalledTimes(2);
+    expect(sendTransaction.mock.calls[1][0]).toMatchObject({ value: 2n, nonce: 5 });
+  });
+
+  it('replaces a stuck transaction with bumped fees and the same nonce', async () => {
+    const sender = new EvmTransactionSender(wallet, { stuckTimeout: 50, pollInterval: 10, gasBumpPercent: 15 });
+    // The first broadcast never gets mined
+    sendTransaction.mockImplementationOnce(async (request: any) => ({ hash: '0x' + 'aa'.repeat(32), nonce: request.nonce }));
+
+    const receipt = await sender.send({ to: recipient, value: 1n });
+
+    expect(sendTransaction).toHaveBeenCalledTimes(2);
+    expect(sendTransaction.mock.calls[1][0]).toMatchObject({
+      nonce: 5,
+      value: 1n,
+      maxFeePerGas: 116n,
+      maxPriorityFeePerGas: 12n,
+    });
+    expect(receipt.hash).toBe(ethers.id('5:116'));
+  });
+
+  it('fails when the nonce is mined by a transaction it did not send', async () => {
+    const sender = new EvmTransactionSender(wallet, { pollInterval: 10 });
+    sendTransaction.mockImplementationOnce(async (request: any) => ({ hash: '0x' + 'bb'.repeat(32), nonce: request.nonce }));
+    minedNonce = 6;
+
+    await expect(sender.send({ to: recipient, value: 1n })).rejects.toThrow('Nonce 5 was used by another transaction');
+  });
+});
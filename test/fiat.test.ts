@@ -0,0 +1,108 @@
+import { ethers } from 'ethers';
+import { EvmPaymentProvider } from '../src/providers/EvmPaymentProvider';
+import { EvmTransactionSender } from '../src/providers/EvmTransactionSender';
+import { StaticPriceOracle } from '../src/oracles/StaticPriceOracle';
+import { lockConversionRate } from '../src/oracles/lockConversionRate';
+
+describe('fiat pricing', () => {
+  describe('lockConversionRate', () => {
+    const oracle = new StaticPriceOracle({ 'ETH/USD': 2000, 'USDC/USD': 1 });
+
+    it('converts cents to wei at the oracle price', async () => {
+      const rate = await lockConversionRate({ oracle, currency: 'USD' }, 'ETH', 18);
+
+      expect(rate).toMatchObject({ asset: 'ETH', currency: 'USD', price: 2000 });
+      // $1 buys 0.0005 ETH
+      expect(100 / rate.conversionRate).toBeCloseTo(5e14, -2);
+    });
+
+    it('converts to token base units with the token decimals', async () => {
+      const rate = await lockConversionRate({ oracle, currency: 'USD' }, 'USDC', 6);
+
+      expect(100 / rate.conversionRate).toBeCloseTo(1e6);
+    });
+
+    it('refuses to quote with a stale price', async () => {
+      const stale = new StaticPriceOracle();
+      stale.setPrice('ETH', 'USD', 2000, Date.now() - 600000);
+
+      await expect(lockConversionRate({ oracle: stale, currency: 'USD' }, 'ETH', 18)).rejects.toThrow('refusing to quote');
+      await expect(lockConversionRate({ oracle: stale, currency: 'USD', maxRateAge: 900 }, 'ETH', 18)).resolves.toBeDefined();
+    });
+
+    it('rejects invalid and missing prices', async () => {
+      const broken = new StaticPriceOracle({ 'ETH/USD': 0 });
+
+      await expect(lockConversionRate({ oracle: broken, currency: 'USD' }, 'ETH', 18)).rejects.toThrow('Invalid ETH/USD price');
+      await expect(lockConversionRate({ oracle: broken, currency: 'EUR' }, 'ETH', 18)).rejects.toThrow('No price for ETH/EUR');
+    });
+  });
+
+  describe('EVM amounts', () => {
+    const oracle = new StaticPriceOracle({ 'ETH/USD': 2000 });
+
+    afterEach(() => jest.restoreAllMocks());
+
+    it('quotes and refunds amounts beyond the safe integer range in wei', async () => {
+      const wallet = ethers.Wallet.createRandom();
+      const recipient = ethers.Wallet.createRandom().address;
+      jest.spyOn(ethers.JsonRpcProvider.prototype, 'getBalance').mockResolvedValue(10n ** 18n);
+      jest.spyOn(ethers.JsonRpcProvider.prototype, 'getCode').mockResolvedValue('0x');
+      jest.spyOn(ethers.JsonRpcProvider.prototype, 'getFeeData').mockResolvedValue(new ethers.FeeData(1n, 1n, 1n));
+      jest.spyOn(ethers.Wallet.prototype, 'estimateGas').mockResolvedValue(21000n);
+      const send = jest.spyOn(EvmTransactionSender.prototype, 'send')
+        .mockResolvedValue({ status: 1, hash: '0x01', blockNumber: 1, gasUsed: 21000n, gasPrice: 1n } as any);
+
+      const provider = new EvmPaymentProvider({
+        rpcEndpoint: 'http://127.0.0.1:8545',
+        chainId: 1,
+        merchantWallet: wallet.address,
+        merchantPrivateKey: wallet.privateKey,
+        fiatPricing: { oracle, currency: 'USD' },
+      });
+
+      // $50 is 0.025 ETH, 2.5e16 wei
+      const details = await provider.requestPaymentDetails(5000);
+      expect(details).toMatchObject({ amountWei: '25000000000000000', amountETH: '0.025' });
+
+      await provider.issueRefund({ senderAddress: recipient, conversionRate: details.rate.conversionRate }, 5000);
+      expect(send.mock.calls[0][0]).toMatchObject({ to: recipient, value: 25000000000000000n });
+    });
+  });
+
+  describe('batched refunds', () => {
+    afterEach(() => jest.restoreAllMocks());
+
+    it('converts each refund at its own locked rate', async () => {
+      const wallet = ethers.Wallet.createRandom();
+      const recipient = ethers.Wallet.createRandom().address;
+      jest.spyOn(ethers.JsonRpcProvider.prototype, 'getBalance').mockResolvedValue(10n ** 18n);
+      const send = jest.spyOn(EvmTransactionSender.prototype, 'send')
+        .mockResolvedValue({ status: 1, hash: '0x01', blockNumber: 1, gasUsed: 21000n } as any);
+
+      const provider = new EvmPaymentProvider({
+        rpcEndpoint: 'http://127.0.0.1:8545',
+        chainId: 1,
+        merchantWallet: wallet.address,
+        merchantPrivateKey: wallet.privateKey,
+      });
+
+      // The same recipient paid twice, at rates locked when the price moved
+      const failed = await provider.issueBatchRefund([
+        { proof: { senderAddress: recipient, conversionRate: 0.5 }, amount: 100 },
+        { proof: { senderAddress: recipient, conversionRate: 0.25 }, amount: 100 },
+      ]);
+
+      expect(failed).toEqual([]);
+      const tx = send.mock.calls[0][0];
+      const [calls] = new ethers.Interface([
+        'function aggregate3Value((address target, bool allowFailure, uint256 value, bytes callData)[] calls) payable',
+      ]).decodeFunctionData('aggregate3Value', tx.data!);
+
+      expect(calls).toHaveLength(1);
+      expect(calls[0].target).toBe(recipient);
+      expect(calls[0].value).toBe(600n);
+      expect(tx.value).toBe(600n);
+    });
+  });
+});
@@ -0,0 +1,157 @@
+import WebSocket, { WebSocketServer } from 'ws';
+import { AddressInfo } from 'net';
+import { WS402 } from '../src/WS402';
+import { MockPaymentProvider } from '../src/providers/MockPaymentProvider';
+import { PaymentProvider, RefundJob, WS402Config } from '../src/types';
+
+export interface TestServer {
+  ws402: WS402;
+  url: string;
+  provider: MockPaymentProvider;
+
+  /** Server-side socket of each connected user */
+  sockets: Map<string, WebSocket>;
+
+  close(): Promise<void>;
+}
+
+/**
+ * Start a WebSocket server with WS402 attached, on a free local port
+ */
+export async function startServer(
+  config: WS402Config = {},
+  provider: PaymentProvider = new MockPaymentProvider()
+): Promise<TestServer> {
+  const wss = new WebSocketServer({ port: 0 });
+  await new Promise(resolve => wss.once('listening', resolve));
+
+  const ws402 = new WS402({ updateInterval: 100, ...config }, provider);
+  ws402.on('error', () => {});
+  const sockets = ws402.attach(wss);
+
+  return {
+    ws402,
+    provider: provider as MockPaymentProvider,
+    url: `ws://127.0.0.1:${(wss.address() as AddressInfo).port}`,
+    sockets,
+    close: () => new Promise(resolve => {
+      wss.clients.forEach(client => client.terminate());
+      wss.close(() => resolve());
+    }),
+  };
+}
+
+/**
+ * WebSocket client that records every message it receives
+ */
+export class TestClient {
+  readonly ws: WebSocket;
+  readonly messages: any[] = [];
+  private waiters: Array<{ match: (message: any) => boolean; resolve: (message: any) => void }> = [];
+
+  constructor(url: string, userId = 'alice', resourceId?: string) {
+    this.ws = new WebSocket(`${url}/?userId=${userId}${resourceId ? `&resourceId=${resourceId}` : ''}`);
+    this.ws.on('message', data => {
+      let message: any;
+      try {
+        message = JSON.parse(data.toString());
+      } catch (error) {
+        // Application data rather than a WS402 message
+        message = { type: 'data', data: data.toString() };
+      }
+      this.messages.push(message);
+      this.waiters = this.waiters.filter(waiter => {
+        if (!waiter.match(message)) return true;
+        waiter.resolve(message);
+        return false;
+      });
+    });
+  }
+
+  opened(): Promise<void> {
+    if (this.ws.readyState === WebSocket.OPEN) return Promise.resolve();
+    return new Promise(resolve => this.ws.once('open', () => resolve()));
+  }
+
+  closed(): Promise<{ code: number; reason: string }> {
+    if (this.ws.readyState === WebSocket.CLOSED) return Promise.resolve({ code: 0, reason: '' });
+    return new Promise(resolve => this.ws.once('close', (code, reason) => resolve({ code, reason: reason.toString() })));
+  }
+
+  send(message: any): void {
+    this.ws.send(typeof message === 'string' ? message : JSON.stringify(message));
+  }
+
+  /**
+   * Next message of a type, or of any of several types (optionally matching a predicate), including one already received
+   */
+  next(type: string | string[], predicate: (message: any) => boolean = () => true, timeout = 3000): Promise<any> {
+    const types = Array.isArray(type) ? type : [type];
+    const match = (message: any) => types.includes(message.type) && predicate(message);
+    const received = this.messages.find(match);
+    if (received) return Promise.resolve(received);
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => reject(new Error(`Timed out waiting for ${types.join(' or ')}`)), timeout);
+      this.waiters.push({ match, resolve: message => { clearTimeout(timer); resolve(message); } });
+    });
+  }
+
+  close(): void {
+    this.ws.close();
+  }
+}
+
+/**
+ * Close a client and wait for WS402 to settle its session, including the first attempt at each refund
+ */
+export async function closeSession(server: TestServer, client: TestClient): Promise<any> {
+  const ended = new Promise<any>(resolve => server.ws402.once('session_end', resolve));
+  client.close();
+
+  const session = await ended;
+  await refundsAttempted(server, session.sessionId);
+  return session;
+}
+
+/**
+ * Wait for refunds of a session that are being attempted (pending, with no failed attempt yet)
+ */
+export async function refundsAttempted(server: TestServer, sessionId: string): Promise<void> {
+  const inFlight = (await server.ws402.listRefunds('pending'))
+    .filter(job => job.sessionId === sessionId && !job.lastError);
+
+  await Promise.all(inFlight.map(({ id }) => new Promise<void>(resolve => {
+    const done = ({ job }: { job: RefundJob }) => {
+      if (job.id !== id) return;
+      server.ws402.off('refund', done).off('refund_error', done);
+      resolve();
+    };
+    server.ws402.on('refund', done).on('refund_error', done);
+  })));
+}
+
+/**
+ * Connect and pay with the mock provider; resolves with the session_started message
+ */
+export async function openSession(
+  server: TestServer,
+  amount: number,
+  userId = 'alice'
+): Promise<{ client: TestClient; started: any }> {
+  const client = new TestClient(server.url, userId);
+  await client.opened();
+  client.send({ type: 'payment_proof', proof: mockProof(server.provider, amount) });
+  return { client, started: await client.next('session_started') };
+}
+
+/**
+ * Proof for a mock payment of the amount, against fresh payment details
+ */
+export function mockProof(provider: PaymentProvider, amount: number): any {
+  return { amount, reference: provider.generatePaymentDetails(amount).reference };
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,72 @@
+import { ethers } from 'ethers';
+import { ManualRefundRequiredError } from '../src/errors';
+import { StaticPriceOracle } from '../src/oracles/StaticPriceOracle';
+import { EvmPaymentProvider } from '../src/providers/EvmPaymentProvider';
+import { LedgerPaymentProvider } from '../src/providers/LedgerPaymentProvider';
+import { MockPaymentProvider } from '../src/providers/MockPaymentProvider';
+import { mockProof } from './helpers';
+
+describe('LedgerPaymentProvider', () => {
+  let depositProvider: MockPaymentProvider;
+  let ledger: LedgerPaymentProvider;
+  let account: { accountId: string; accountToken: string };
+
+  beforeEach(async () => {
+    depositProvider = new MockPaymentProvider();
+    ledger = new LedgerPaymentProvider({ depositProvider });
+    account = await ledger.createAccount();
+    await ledger.deposit(account.accountId, account.accountToken, mockProof(depositProvider, 100));
+  });
+
+  it('debits a withdrawal once it is paid out', async () => {
+    const payout = jest.spyOn(depositProvider, 'issueRefund');
+
+    const entry = await ledger.withdraw(account.accountId, account.accountToken, 40, 'bob');
+
+    expect(payout).toHaveBeenCalledWith({ userId: 'bob' }, 40);
+    expect(entry).toMatchObject({ type: 'withdrawal', amount: -40, balance: 60 });
+    expect(await ledger.getBalance(account.accountId)).toBe(60);
+  });
+
+  it.each([
+    ['the payout fails', new Error('RPC unavailable')],
+    ['the provider cannot pay it automatically', new ManualRefundRequiredError('Automatic refunds disabled - manual refund required')],
+  ])('restores the balance when %s', async (_, error) => {
+    jest.spyOn(depositProvider, 'issueRefund').mockRejectedValue(error);
+
+    await expect(ledger.withdraw(account.accountId, account.accountToken, 40, 'bob')).rejects.toBe(error);
+    expect(await ledger.getBalance(account.accountId)).toBe(100);
+  });
+
+  it('rejects a caller-supplied refund proof as the recipient', async () => {
+    const payout = jest.spyOn(depositProvider, 'issueRefund');
+    const destination: any = { userId: 'bob', conversionRate: 1e-12 };
+
+    await expect(ledger.withdraw(account.accountId, account.accountToken, 40, destination)).rejects.toThrow('Recipient address required');
+    expect(payout).not.toHaveBeenCalled();
+    expect(await ledger.getBalance(account.accountId)).toBe(100);
+  });
+
+  it('pays EVM withdrawals at a freshly locked rate', async () => {
+    const recipient = ethers.Wallet.createRandom().address;
+    const evm = new EvmPaymentProvider({
+      rpcEndpoint: 'http://127.0.0.1:8545',
+      chainId: 1,
+      merchantWallet: ethers.Wallet.createRandom().address,
+      fiatPricing: { oracle: new StaticPriceOracle({ 'ETH/USD': 2000 }), currency: 'USD' },
+    });
+
+    const proof = await evm.payoutProof(recipient.toLowerCase());
+
+    expect(proof).toEqual({ senderAddress: recipient, conversionRate: 2e-13 });
+    await expect(evm.payoutProof('0xUser')).rejects.toThrow('Invalid recipient address');
+  });
+
+  it('removes the account token from a verified proof', async () => {
+    const proof = { ...account, amount: 30 };
+
+    expect(await ledger.verifyPayment(proof)).toEqual({ valid: true, amount: 30 });
+    expect(proof).toEqual({ accountId: account.accountId, amount: 30 });
+    expect(await ledger.getBalance(account.accountId)).toBe(70);
+  });
+});
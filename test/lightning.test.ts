@@ -0,0 +1,111 @@
+import { createHash, randomBytes } from 'crypto';
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { LightningPaymentProvider } from '../src/providers/LightningPaymentProvider';
+
+interface LndRequest {
+  method: string;
+  url: string;
+  macaroon?: string;
+  body: any;
+}
+
+/**
+ * Stub of the LND REST endpoints the provider uses, with one invoice
+ */
+async function startLnd(invoice: { state: string; amtPaidMsat: string }): Promise<{
+  url: string;
+  preimage: string;
+  requests: LndRequest[];
+  close: () => Promise<void>;
+}> {
+  const preimage = randomBytes(32).toString('hex');
+  const hash = createHash('sha256').update(Buffer.from(preimage, 'hex')).digest();
+  const requests: LndRequest[] = [];
+
+  const routes: Record<string, ((request: LndRequest) => any) | undefined> = {
+    'POST /v1/invoices': () => ({ r_hash: hash.toString('base64'), payment_request: 'lnbc500n1pinvoice' }),
+    [`GET /v1/invoice/${hash.toString('hex')}`]: () => ({ state: invoice.state, amt_paid_msat: invoice.amtPaidMsat }),
+    'GET /v1/payreq/lnbc1prefund': () => ({ num_msat: '0' }),
+    'POST /v1/channels/transactions': () => ({ payment_hash: randomBytes(32).toString('base64') }),
+  };
+
+  const server: Server = createServer(async (req: IncomingMessage, res) => {
+    let raw = '';
+    for await (const chunk of req) raw += chunk;
+
+    const request = {
+      method: req.method!,
+      url: req.url!,
+      macaroon: req.headers['grpc-metadata-macaroon'] as string | undefined,
+      body: raw ? JSON.parse(raw) : undefined,
+    };
+    requests.push(request);
+
+    const route = routes[`${request.method} ${request.url}`];
+    res.writeHead(route ? 200 : 404, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(route ? route(request) : { message: 'not found' }));
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    preimage,
+    requests,
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  };
+}
+
+describe('LightningPaymentProvider', () => {
+  let lnd: Awaited<ReturnType<typeof startLnd>>;
+
+  afterEach(() => lnd.close());
+
+  it('creates an invoice on the node with the macaroon', async () => {
+    lnd = await startLnd({ state: 'OPEN', amtPaidMsat: '0' });
+    const provider = new LightningPaymentProvider({ restEndpoint: lnd.url, macaroon: 'abcd', conversionRate: 0.001 });
+
+    const details = await provider.requestPaymentDetails(50);
+
+    expect(details).toMatchObject({ type: 'lightning', invoice: 'lnbc500n1pinvoice', amountMsat: '50000', amountSat: '50' });
+    expect(lnd.requests[0]).toMatchObject({ method: 'POST', url: '/v1/invoices', macaroon: 'abcd' });
+    expect(lnd.requests[0].body.value_msat).toBe('50000');
+  });
+
+  it('verifies a payment by its preimage, or by the settled invoice', async () => {
+    lnd = await startLnd({ state: 'SETTLED', amtPaidMsat: '50000' });
+    const provider = new LightningPaymentProvider({ restEndpoint: lnd.url, conversionRate: 0.001 });
+
+    const byPreimage = await provider.requestPaymentDetails(50);
+    expect(await provider.verifyPayment({ reference: byPreimage.reference, preimage: lnd.preimage })).toEqual({ valid: true, amount: 50 });
+
+    const bySettlement = await provider.requestPaymentDetails(50);
+    expect(await provider.verifyPayment({ reference: bySettlement.reference })).toEqual({ valid: true, amount: 50 });
+    expect(lnd.requests.map(request => request.url)).toContain(`/v1/invoice/${bySettlement.reference}`);
+  });
+
+  it('rejects a wrong preimage or an underpaid invoice', async () => {
+    lnd = await startLnd({ state: 'SETTLED', amtPaidMsat: '40000' });
+    const provider = new LightningPaymentProvider({ restEndpoint: lnd.url, conversionRate: 0.001 });
+    const details = await provider.requestPaymentDetails(50);
+
+    expect(await provider.verifyPayment({ reference: details.reference, preimage: '00' }))
+      .toMatchObject({ valid: false, reason: 'Preimage does not match payment hash' });
+    expect(await provider.verifyPayment({ reference: details.reference }))
+      .toMatchObject({ valid: false, reason: expect.stringContaining('Amount mismatch') });
+  });
+
+  it('refunds to an amountless invoice, within the fee limit', async () => {
+    lnd = await startLnd({ state: 'OPEN', amtPaidMsat: '0' });
+    const provider = new LightningPaymentProvider({ restEndpoint: lnd.url, conversionRate: 0.001, refundFeeLimitMsat: 2000 });
+
+    await provider.issueRefund({ refundInvoice: 'lnbc1prefund' }, 12);
+
+    const payment = lnd.requests.find(request => request.url === '/v1/channels/transactions');
+    expect(payment?.body).toEqual({
+      payment_request: 'lnbc1prefund',
+      amt_msat: '12000',
+      fee_limit: { fixed_msat: '2000' },
+    });
+  });
+});
@@ -0,0 +1,55 @@
+import dns from 'dns';
+import https from 'https';
+import { LightningPaymentProvider } from '../src/providers/LightningPaymentProvider';
+
+describe('LNURL refund addresses', () => {
+  const provider = new LightningPaymentProvider({ restEndpoint: 'https://127.0.0.1:8080', macaroon: '00' });
+  let requestSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    requestSpy = jest.spyOn(https, 'request');
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it.each([
+    ['plain HTTP links', 'http://wallet.example/lnurlp/alice', /HTTPS/],
+    ['loopback hosts', 'https://127.0.0.1/lnurlp/alice', /non-public/],
+    ['private addresses', 'https://10.0.0.5/lnurlp/alice', /non-public/],
+    ['IPv6 loopback', 'https://[::1]/lnurlp/alice', /non-public/],
+    ['IPv4-mapped IPv6', 'https://[::ffff:127.0.0.1]/lnurlp/alice', /non-public/],
+    ['Lightning addresses on private hosts', 'alice@127.0.0.1', /non-public/],
+    ['malformed Lightning addresses', 'alice/../admin@wallet.example', /Invalid Lightning address/],
+  ])('rejects %s', async (_, refundAddress, reason) => {
+    await expect(provider.issueRefund({ refundAddress }, 1000)).rejects.toThrow(reason);
+    expect(requestSpy).not.toHaveBeenCalled();
+  });
+
+  it('checks host names in the lookup the connection uses', async () => {
+    // Rebinding: whatever the host resolved to before, the socket connects to what this lookup returns
+    const lookup = jest.spyOn(dns, 'lookup').mockImplementation(((hostname: string, options: any, callback: any) => {
+      callback(null, [{ address: '127.0.0.1', family: 4 }]);
+    }) as any);
+
+    await expect(provider.issueRefund({ refundAddress: 'alice@wallet.example' }, 1000)).rejects.toThrow(/non-public/);
+    expect(requestSpy).toHaveBeenCalledTimes(1);
+    expect(lookup).toHaveBeenCalledWith('wallet.example', expect.anything(), expect.any(Function));
+  });
+
+  it('rejects host names that resolve to loopback', async () => {
+    await expect(provider.issueRefund({ refundAddress: 'https://localhost/lnurlp/alice' }, 1000)).rejects.toThrow(/non-public/);
+  });
+
+  it('rejects callbacks to private addresses', async () => {
+    const fetchLnurl = jest.spyOn(provider as any, 'fetchLnurlJson').mockResolvedValueOnce({
+      tag: 'payRequest',
+      callback: 'https://169.254.169.254/latest/meta-data',
+      minSendable: 1,
+      maxSendable: 1000000,
+    });
+
+    await expect(provider.issueRefund({ refundAddress: 'https://93.184.215.14/lnurlp/alice' }, 1000))
+      .rejects.toThrow(/non-public/);
+    expect(fetchLnurl).toHaveBeenCalledTimes(1);
+  });
+});
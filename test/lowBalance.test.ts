@@ -0,0 +1,63 @@
+import { closeSession, mockProof, openSession, startServer, TestServer } from './helpers';
+
+describe('low balance', () => {
+  let server: TestServer;
+
+  afterEach(() => server.close());
+
+  it('warns once below the threshold, then closes the session after the grace period', async () => {
+    server = await startServer({
+      pricingModel: 'per-message',
+      pricePerMessage: 30,
+      lowBalanceThreshold: { percentage: 50 },
+      gracePeriod: 1,
+    });
+    const warnings: any[] = [];
+    server.ws402.on('low_balance', ({ warning }) => warnings.push(warning));
+    const { client } = await openSession(server, 100);
+
+    client.send('one');
+    client.send('two');
+    const warning = await client.next('low_balance');
+    expect(warning).toMatchObject({ remainingBalance: 40, gracePeriod: 1 });
+
+    client.send('three');
+    client.send('four');
+    const grace = await client.next('grace_period_started');
+    expect(grace.expiresAt - Date.now()).toBeGreaterThan(500);
+    expect(server.ws402.getActiveSessions()).toHaveLength(1);
+
+    const closed = await client.closed();
+    expect(closed.reason).toBe('Balance exhausted');
+    expect(Date.now()).toBeGreaterThanOrEqual(grace.expiresAt);
+    expect(client.messages.filter(message => message.type === 'low_balance')).toHaveLength(1);
+    expect(warnings).toEqual([warning]);
+  });
+
+  it('warns from the estimated seconds remaining', async () => {
+    server = await startServer({ pricePerSecond: 10, lowBalanceThreshold: { secondsRemaining: 1 } });
+    const { client } = await openSession(server, 25);
+
+    const warning = await client.next('low_balance');
+
+    expect(warning).toMatchObject({ remainingBalance: 15, estimatedSecondsRemaining: 1 });
+    await closeSession(server, client);
+  });
+
+  it('keeps the session open when topped up during the grace period', async () => {
+    server = await startServer({ pricingModel: 'per-message', pricePerMessage: 30, gracePeriod: 1 });
+    const { client } = await openSession(server, 50);
+
+    client.send('one');
+    client.send('two');
+    await client.next('grace_period_started');
+
+    client.send({ type: 'payment_proof', proof: mockProof(server.provider, 100) });
+    await client.next('topup_confirmed');
+    await new Promise(resolve => setTimeout(resolve, 1300));
+
+    expect(server.ws402.getActiveSessions()).toHaveLength(1);
+    expect(client.messages.map(message => message.type)).not.toContain('balance_exhausted');
+    await closeSession(server, client);
+  });
+});
@@ -0,0 +1,109 @@
+import { closeSession, openSession, startServer, TestServer } from './helpers';
+
+describe('usage metering', () => {
+  let server: TestServer;
+
+  afterEach(() => server.close());
+
+  it('bills bytes sent to and received from the client', async () => {
+    server = await startServer({ pricingModel: 'per-byte', pricePerByte: 2 });
+    const { client } = await openSession(server, 10000);
+
+    server.sockets.get('alice')!.send('x'.repeat(100));
+    client.send('y'.repeat(50));
+
+    const update = await client.next('usage_update', message => message.bytesTransferred === 150);
+    expect(update.messageCount).toBe(2);
+    expect(update.consumedAmount).toBe(300);
+    expect(update.breakdown.bytes).toBe(300);
+    await closeSession(server, client);
+  });
+
+  it('bills messages in both directions but not protocol messages', async () => {
+    server = await startServer({ pricingModel: 'per-message', pricePerMessage: 5 });
+    const { client } = await openSession(server, 10000);
+
+    const socket = server.sockets.get('alice')!;
+    socket.send('tick');
+    socket.send(Buffer.from('tock'));
+    client.send('ack');
+
+    await client.next('usage_update', message => message.messageCount === 3);
+    // Several usage updates later, still only the application's messages
+    await new Promise(resolve => setTimeout(resolve, 350));
+    const session = server.ws402.getActiveSessions()[0];
+    expect(session.messageCount).toBe(3);
+    expect(session.bytesTransferred).toBe(11);
+    expect(session.consumedAmount).toBe(15);
+    await closeSession(server, client);
+  });
+
+  it('keeps the per-second model on elapsed time', async () => {
+    server = await startServer({ pricePerSecond: 10 });
+    const { client, started } = await openSession(server, 1000);
+
+    expect(started.pricingModel).toBe('per-second');
+    server.sockets.get('alice')!.send('x'.repeat(1000));
+
+    const update = await client.next('usage_update', message => message.bytesTransferred === 1000);
+    expect(update.breakdown.bytes).toBe(0);
+    expect(update.consumedAmount).toBe(update.elapsedSeconds * 10);
+    await closeSession(server, client);
+  });
+
+  describe('custom meters', () => {
+    // Per-message pricing with no application messages, so only meters are billed
+    const config = { pricingModel: 'per-message' as const, pricePerMessage: 1, meters: { tokens: 2 } };
+
+    it('bills recorded usage on an active session', async () => {
+      server = await startServer(config);
+      const { client, started } = await openSession(server, 1000);
+
+      server.ws402.recordUsage(started.sessionId, 'tokens', 100);
+      server.ws402.recordUsage(started.sessionId, 'tokens', 50);
+
+      const update = await client.next('usage_update', message => message.breakdown.meters.tokens === 300);
+      expect(update.consumedAmount).toBe(300);
+      expect(update.remainingBalance).toBe(700);
+
+      const refunded = new Promise<any>(resolve => server.ws402.once('refund', resolve));
+      const ended = await closeSession(server, client);
+      expect(ended.meterUsage).toEqual({ tokens: 150 });
+      expect((await refunded).job.amount).toBe(700);
+    });
+
+    it('closes the session once recorded usage exhausts the balance', async () => {
+      server = await startServer(config);
+      const { client, started } = await openSession(server, 100);
+
+      server.ws402.recordUsage(started.sessionId, 'tokens', 60);
+
+      expect(await client.closed()).toMatchObject({ reason: 'Balance exhausted' });
+      expect(server.ws402.getActiveSessions()).toHaveLength(0);
+    });
+
+    it('does not bill usage recorded after the session ended', async () => {
+      server = await startServer(config);
+      const { client, started } = await openSession(server, 1000);
+      server.ws402.recordUsage(started.sessionId, 'tokens', 10);
+
+      const refunded = new Promise<any>(resolve => server.ws402.once('refund', resolve));
+      const ended = await closeSession(server, client);
+
+      expect(() => server.ws402.recordUsage(started.sessionId, 'tokens', 100)).toThrow('Session not found');
+      expect(ended.meterUsage).toEqual({ tokens: 10 });
+      expect(ended.consumedAmount).toBe(20);
+      expect((await refunded).job.amount).toBe(980);
+    });
+
+    it('rejects unknown meters and invalid quantities', async () => {
+      server = await startServer(config);
+      const { client, started } = await openSession(server, 1000);
+
+      expect(() => server.ws402.recordUsage(started.sessionId, 'gpu', 1)).toThrow('Unknown meter: gpu');
+      expect(() => server.ws402.recordUsage(started.sessionId, 'tokens', -1)).toThrow('non-negative');
+      expect(() => server.ws402.recordUsage(started.sessionId, 'tokens', NaN)).toThrow('non-negative');
+      await closeSession(server, client);
+    });
+  });
+});
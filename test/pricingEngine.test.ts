@@ -0,0 +1,58 @@
+import { PricingEngine } from '../src/PricingEngine';
+
+// Monday 2024-01-01, 17:59 UTC
+const MONDAY_1759 = Date.UTC(2024, 0, 1, 17, 59);
+
+describe('PricingEngine', () => {
+  it('prices the free preview and elapsed-time tiers', () => {
+    const engine = new PricingEngine({ freePreviewSeconds: 10, tiers: [{ afterSeconds: 60, multiplier: 0.5 }] });
+
+    expect(engine.price(2, 0, 120, MONDAY_1759)).toEqual([
+      { fromSecond: 0, toSecond: 10, pricePerSecond: 0, amount: 0 },
+      { fromSecond: 10, toSecond: 60, pricePerSecond: 2, amount: 100 },
+      { fromSecond: 60, toSecond: 120, pricePerSecond: 1, amount: 60 },
+    ]);
+  });
+
+  it('applies time windows from the wall-clock minute they start', () => {
+    const engine = new PricingEngine({ timeWindows: [{ name: 'peak', start: '18:00', end: '22:00', multiplier: 2 }] });
+
+    expect(engine.price(1, 0, 120, MONDAY_1759)).toEqual([
+      { fromSecond: 0, toSecond: 60, pricePerSecond: 1, amount: 60 },
+      { fromSecond: 60, toSecond: 120, pricePerSecond: 2, amount: 120 },
+    ]);
+  });
+
+  it('evaluates windows past midnight and by day in the configured time zone', () => {
+    // Friday nights in New York (UTC-5 in January), running into Saturday morning
+    const engine = new PricingEngine({
+      timezone: 'America/New_York',
+      timeWindows: [{ days: [5], start: '22:00', end: '02:00', multiplier: 3 }],
+    });
+
+    expect(engine.priceAt(1, 0, Date.UTC(2024, 0, 6, 3, 30))).toBe(3); // Friday 22:30 (Saturday 03:30 UTC)
+    expect(engine.priceAt(1, 0, Date.UTC(2024, 0, 6, 6, 30))).toBe(3); // Saturday 01:30, Friday's window
+    expect(engine.priceAt(1, 0, Date.UTC(2024, 0, 6, 8))).toBe(1); // Saturday 03:00
+    expect(engine.priceAt(1, 0, Date.UTC(2024, 0, 7, 4))).toBe(1); // Saturday 23:00
+  });
+
+  it('grants volume discounts from recent spend', () => {
+    const engine = new PricingEngine({
+      volumeDiscounts: [{ minSpend: 100, discount: 0.1 }, { minSpend: 1000, discount: 0.2 }],
+    });
+
+    engine.recordSpend('alice', 500);
+    expect(engine.volumeDiscount('alice')).toBe(0.1);
+
+    engine.recordSpend('alice', 600);
+    expect(engine.volumeDiscount('alice')).toBe(0.2);
+    expect(engine.volumeDiscount('bob')).toBe(0);
+  });
+
+  it('rejects invalid rules', () => {
+    expect(() => new PricingEngine({ tiers: [{ afterSeconds: 60, multiplier: -1 }] })).toThrow('non-negative');
+    expect(() => new PricingEngine({ volumeDiscounts: [{ minSpend: 1, discount: 1.5 }] })).toThrow('between 0 and 1');
+    expect(() => new PricingEngine({ timeWindows: [{ start: '25:00', end: '26:00', multiplier: 2 }] })).toThrow('Invalid pricing window time');
+    expect(() => new PricingEngine({ timezone: 'Mars/Olympus_Mons' })).toThrow();
+  });
+});
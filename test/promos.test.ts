@@ -0,0 +1,98 @@
+import { MemoryPromoCodeStore } from '../src/stores/MemoryPromoCodeStore';
+import { WS402Schema } from '../src/types';
+import { closeSession, startServer, TestClient, TestServer } from './helpers';
+
+describe('promo codes', () => {
+  let server: TestServer;
+  let promoCodes: MemoryPromoCodeStore;
+
+  beforeEach(async () => {
+    promoCodes = new MemoryPromoCodeStore([
+      { code: 'HALF', percentOff: 50 },
+      { code: 'FREE', percentOff: 100 },
+      { code: 'ONCE', credit: 10, maxUses: 1 },
+    ]);
+    server = await startServer({ pricePerSecond: 1, promoCodeStore: promoCodes });
+  });
+
+  afterEach(() => server.close());
+
+  /**
+   * Pay for a schema with the proof its payment details ask for, returning the client and its first reply
+   */
+  async function pay(schema: WS402Schema, provider?: string): Promise<{ client: TestClient; reply: any }> {
+    const client = new TestClient(server.url);
+    await client.opened();
+    client.send({
+      type: 'payment_proof',
+      provider,
+      proof: { amount: schema.pricing.totalPrice, reference: schema.paymentDetails.reference },
+    });
+    return { client, reply: await client.next(['session_started', 'payment_rejected']) };
+  }
+
+  it('discounts the schema and credits the discount to the session', async () => {
+    const schema = await server.ws402.requestSchema('video', 60, undefined, { promoCode: 'HALF' });
+
+    expect(schema.pricing).toMatchObject({
+      totalPrice: 30,
+      promo: { code: 'HALF', applied: true, listPrice: 60, discount: 30 },
+    });
+    expect(schema.paymentDetails.amount).toBe(30);
+
+    const { client, reply } = await pay(schema);
+
+    expect(reply).toMatchObject({ type: 'session_started', balance: 60, promo: { code: 'HALF', discount: 30 } });
+    await closeSession(server, client);
+    expect((await promoCodes.get('HALF'))!.uses).toBe(1);
+  });
+
+  it('leaves the price unchanged for an unknown code', async () => {
+    const schema = await server.ws402.requestSchema('video', 60, undefined, { promoCode: 'NOPE' });
+
+    expect(schema.pricing).toMatchObject({
+      totalPrice: 60,
+      promo: { applied: false, reason: 'Unknown promo code', discount: 0 },
+    });
+  });
+
+  it('starts a fully discounted session from the promo reference alone', async () => {
+    const schema = await server.ws402.requestSchema('video', 60, undefined, { promoCode: 'FREE' });
+
+    expect(schema.pricing.totalPrice).toBe(0);
+    expect(schema.paymentDetails).toMatchObject({ type: 'promo', amount: 0 });
+
+    const { client, reply } = await pay(schema);
+
+    expect(reply).toMatchObject({ type: 'session_started', balance: 60, paymentProvider: 'default' });
+    const ended = await closeSession(server, client);
+    expect(ended.payments).toEqual([expect.objectContaining({ amount: 0 })]);
+  });
+
+  it('rejects a replayed promo reference', async () => {
+    const schema = await server.ws402.requestSchema('video', 60, undefined, { promoCode: 'FREE' });
+    const first = await pay(schema);
+    expect(first.reply.type).toBe('session_started');
+
+    const { reply } = await pay(schema);
+
+    expect(reply).toMatchObject({ type: 'payment_rejected' });
+    expect((await promoCodes.get('FREE'))!.uses).toBe(1);
+    await closeSession(server, first.client);
+  });
+
+  it('rejects a payment once the code is used up, giving back failed uses', async () => {
+    const first = await server.ws402.requestSchema('video', 60, undefined, { promoCode: 'ONCE' });
+    const second = await server.ws402.requestSchema('video', 60, undefined, { promoCode: 'ONCE' });
+
+    const unpaid = await pay(first, 'unknown');
+    expect(unpaid.reply).toMatchObject({ type: 'payment_rejected', reason: 'Unknown or unspecified payment provider' });
+
+    const { client, reply } = await pay(first);
+    expect(reply.type).toBe('session_started');
+
+    const rejected = await pay(second);
+    expect(rejected.reply).toMatchObject({ type: 'payment_rejected', reason: 'promo_unavailable' });
+    await closeSession(server, client);
+  });
+});
@@ -0,0 +1,70 @@
+import { MockPaymentProvider } from '../src/providers/MockPaymentProvider';
+import { closeSession, mockProof, startServer, TestClient, TestServer } from './helpers';
+
+describe('multiple payment providers', () => {
+  let server: TestServer;
+  let base: MockPaymentProvider;
+
+  beforeEach(async () => {
+    server = await startServer({ pricePerSecond: 1 });
+    base = new MockPaymentProvider();
+    server.ws402.registerProvider('base', base);
+  });
+
+  afterEach(() => server.close());
+
+  /**
+   * Connect and send a payment proof naming a provider, returning the client and the reply
+   */
+  async function pay(proof: any, provider?: string): Promise<{ client: TestClient; reply: any }> {
+    const client = new TestClient(server.url);
+    await client.opened();
+    client.send({ type: 'payment_proof', provider, proof });
+    return { client, reply: await client.next(['session_started', 'payment_rejected']) };
+  }
+
+  it('lists payment details from every provider in the schema', async () => {
+    const schema = await server.ws402.requestSchema('video', 60);
+
+    expect(schema.paymentDetails).toEqual([
+      expect.objectContaining({ provider: 'default', amount: 60 }),
+      expect.objectContaining({ provider: 'base', amount: 60 }),
+    ]);
+  });
+
+  it('verifies, tops up and refunds through the provider the client paid with', async () => {
+    const defaultRefund = jest.spyOn(server.provider, 'issueRefund');
+    const baseRefund = jest.spyOn(base, 'issueRefund');
+
+    const { client, reply } = await pay(mockProof(base, 100), 'base');
+    expect(reply).toMatchObject({ type: 'session_started', paymentProvider: 'base', balance: 100 });
+
+    client.send({ type: 'topup_request', amount: 50 });
+    const details = await client.next('topup_details');
+    client.send({ type: 'payment_proof', proof: { reference: details.paymentDetails.reference } });
+    await client.next('topup_confirmed');
+
+    const ended = await closeSession(server, client);
+    expect(ended.payments).toHaveLength(2);
+    expect(baseRefund).toHaveBeenCalledTimes(2);
+    expect(defaultRefund).not.toHaveBeenCalled();
+  });
+
+  it('does not verify a proof with another provider', async () => {
+    const { reply } = await pay(mockProof(base, 100), 'default');
+
+    expect(reply).toMatchObject({ type: 'payment_rejected' });
+  });
+
+  it('rejects proofs that name no provider, or an unknown one', async () => {
+    expect((await pay(mockProof(base, 100))).reply)
+      .toMatchObject({ type: 'payment_rejected', reason: 'Unknown or unspecified payment provider' });
+    expect((await pay(mockProof(base, 100), 'lightning')).reply)
+      .toMatchObject({ type: 'payment_rejected', reason: 'Unknown or unspecified payment provider' });
+  });
+
+  it('refuses to register a provider name twice', () => {
+    expect(() => server.ws402.registerProvider('base', new MockPaymentProvider()))
+      .toThrow('Payment provider already registered: base');
+  });
+});
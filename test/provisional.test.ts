@@ -0,0 +1,96 @@
+import { MockPaymentProvider } from '../src/providers/MockPaymentProvider';
+import { PaymentVerification } from '../src/types';
+import { closeSession, openSession, startServer, TestServer } from './helpers';
+
+/**
+ * Mock provider that accepts payments before they are confirmed, letting the test settle each confirmation
+ */
+class ProvisionalPaymentProvider extends MockPaymentProvider {
+  confirmations: Array<(result: PaymentVerification) => void> = [];
+
+  async verifyPayment(proof: any): Promise<PaymentVerification> {
+    const verification = await super.verifyPayment(proof);
+    if (!verification.valid) return verification;
+
+    return {
+      ...verification,
+      confirmation: new Promise(resolve => this.confirmations.push(resolve)),
+    };
+  }
+}
+
+describe('provisional payments', () => {
+  let server: TestServer;
+  let provider: ProvisionalPaymentProvider;
+
+  beforeEach(async () => {
+    provider = new ProvisionalPaymentProvider();
+    server = await startServer({ pricePerSecond: 1 }, provider);
+  });
+
+  afterEach(() => server.close());
+
+  it('starts the session before the payment is confirmed', async () => {
+    const confirmed = new Promise<any>(resolve => server.ws402.once('payment_confirmed', resolve));
+    const { client, started } = await openSession(server, 100);
+
+    expect(started.balance).toBe(100);
+    const [payment] = server.ws402.getActiveSessions()[0].payments;
+    expect(payment.provisional).toBe(true);
+
+    provider.confirmations[0]({ valid: true, amount: 100 });
+    expect((await confirmed).payment).toBe(payment);
+    expect(payment.provisional).toBe(false);
+
+    const issueRefund = jest.spyOn(provider, 'issueRefund');
+    await closeSession(server, client);
+    expect(issueRefund).toHaveBeenCalledTimes(1);
+  });
+
+  it('debits a failed payment and closes its session without refunding it', async () => {
+    const issueRefund = jest.spyOn(provider, 'issueRefund');
+    const failed = new Promise<any>(resolve => server.ws402.once('payment_failed', resolve));
+    const ended = new Promise<any>(resolve => server.ws402.once('session_end', resolve));
+    const { client } = await openSession(server, 100);
+
+    provider.confirmations[0]({ valid: false, amount: 0, reason: 'Transaction reverted' });
+
+    expect(await client.next('payment_failed')).toMatchObject({ reason: 'Transaction reverted' });
+    expect(await client.closed()).toEqual({ code: 1008, reason: 'Payment failed' });
+    expect((await failed).payment.failed).toBe(true);
+
+    const session = await ended;
+    expect(session.paidAmount).toBe(0);
+    expect(await server.ws402.listRefunds()).toEqual([]);
+    expect(issueRefund).not.toHaveBeenCalled();
+  });
+
+  it('holds the refund of a session that ended before its payment was confirmed', async () => {
+    const { client } = await openSession(server, 100);
+    const session = await closeSession(server, client);
+
+    const [held] = await server.ws402.listRefunds();
+    expect(held).toMatchObject({ sessionId: session.sessionId, status: 'held' });
+
+    const refunded = new Promise<any>(resolve => server.ws402.once('refund', resolve));
+    provider.confirmations[0]({ valid: true, amount: 100 });
+
+    expect((await refunded).job.id).toBe(held.id);
+  });
+
+  it('cancels the held refund when the payment fails after the session ended', async () => {
+    const issueRefund = jest.spyOn(provider, 'issueRefund');
+    const { client } = await openSession(server, 100);
+    await closeSession(server, client);
+
+    const failed = new Promise<any>(resolve => server.ws402.once('payment_failed', resolve));
+    provider.confirmations[0]({ valid: false, amount: 0, reason: 'Transaction reverted' });
+    await failed;
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    expect(await server.ws402.listRefunds()).toEqual([
+      expect.objectContaining({ status: 'cancelled', lastError: 'Transaction reverted' }),
+    ]);
+    expect(issueRefund).not.toHaveBeenCalled();
+  });
+});
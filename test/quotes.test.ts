@@ -0,0 +1,103 @@
+import { HmacQuoteSigner } from '../src/signers/HmacQuoteSigner';
+import { WS402Schema } from '../src/types';
+import { closeSession, sleep, startServer, TestClient, TestServer } from './helpers';
+
+describe('signed quotes', () => {
+  let server: TestServer;
+
+  afterEach(() => server.close());
+
+  async function start(quoteTtl?: number): Promise<void> {
+    server = await startServer({
+      pricePerSecond: 1,
+      quoteSigner: new HmacQuoteSigner('q'.repeat(32)),
+      quoteTtl,
+      resources: [{ resourceId: 'cheap', pricePerSecond: 1 }, { resourceId: 'premium', pricePerSecond: 50 }],
+    });
+  }
+
+  /**
+   * Send a payment for a schema with the given quote, returning the client and its first reply
+   */
+  async function pay(schema: WS402Schema, quote: any, resourceId?: string): Promise<{ client: TestClient; reply: any }> {
+    const client = new TestClient(server.url, 'alice', resourceId);
+    await client.opened();
+    client.send({
+      type: 'payment_proof',
+      proof: { amount: schema.pricing.totalPrice, reference: schema.paymentDetails.reference },
+      quote,
+    });
+    return { client, reply: await client.next(['session_started', 'payment_rejected']) };
+  }
+
+  it('starts a session at the quoted prices', async () => {
+    await start();
+    const schema = server.ws402.generateSchema('video', 60, 3);
+
+    const { client, reply } = await pay(schema, schema.quote);
+
+    expect(reply).toMatchObject({ type: 'session_started', pricePerSecond: 3, balance: 180 });
+    await closeSession(server, client);
+  });
+
+  it('rejects a payment without a quote, leaving the proof usable', async () => {
+    await start();
+    const schema = server.ws402.generateSchema('video', 60);
+
+    const rejected = await pay(schema, undefined);
+    expect(rejected.reply).toMatchObject({ type: 'payment_rejected', reason: 'quote_missing' });
+
+    const { client, reply } = await pay(schema, schema.quote);
+    expect(reply.type).toBe('session_started');
+    await closeSession(server, client);
+  });
+
+  it('rejects a tampered quote', async () => {
+    await start();
+    const schema = server.ws402.generateSchema('video', 60, 3);
+
+    const { reply } = await pay(schema, { ...schema.quote, pricePerSecond: 0.01 });
+
+    expect(reply).toMatchObject({ type: 'payment_rejected', reason: 'quote_invalid' });
+  });
+
+  it('rejects an expired quote', async () => {
+    await start(0.1);
+    const schema = server.ws402.generateSchema('video', 60);
+    await sleep(150);
+
+    const { reply } = await pay(schema, schema.quote);
+
+    expect(reply).toMatchObject({ type: 'payment_rejected', reason: 'quote_expired' });
+  });
+
+  it('rejects a quote issued for another payment', async () => {
+    await start();
+    const schema = server.ws402.generateSchema('video', 60);
+    const other = server.ws402.generateSchema('video', 60);
+
+    const { reply } = await pay(schema, other.quote);
+
+    expect(reply).toMatchObject({ type: 'payment_rejected', reason: 'quote_mismatch' });
+  });
+
+  it('rejects a quote for another resource than the connection is for', async () => {
+    await start();
+    const schema = server.ws402.generateSchema('cheap', 60);
+
+    const { reply } = await pay(schema, schema.quote, 'premium');
+
+    expect(reply).toMatchObject({ type: 'payment_rejected', reason: 'quote_mismatch' });
+  });
+
+  it('bills the quoted price over a price the provider returns', async () => {
+    await start();
+    jest.spyOn(server.provider, 'verifyPayment').mockResolvedValue({ valid: true, amount: 60, pricePerSecond: 0.01 });
+    const schema = server.ws402.generateSchema('cheap', 60);
+
+    const { client, reply } = await pay(schema, schema.quote, 'cheap');
+
+    expect(reply).toMatchObject({ type: 'session_started', resourceId: 'cheap', pricePerSecond: 1 });
+    await closeSession(server, client);
+  });
+});
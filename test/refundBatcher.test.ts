@@ -0,0 +1,111 @@
+import { MockPaymentProvider } from '../src/providers/MockPaymentProvider';
+import { RefundBatcher } from '../src/providers/RefundBatcher';
+import { BatchRefund, PaymentProvider } from '../src/types';
+import { openSession, sleep, startServer, TestServer } from './helpers';
+
+/**
+ * Provider whose batch payouts are controlled by the test
+ */
+function batchProvider(): PaymentProvider & { issueBatchRefund: jest.Mock } {
+  return {
+    generatePaymentDetails: amount => ({ amount }),
+    verifyPayment: async proof => ({ valid: true, amount: proof.amount }),
+    issueRefund: jest.fn(async () => {}),
+    issueBatchRefund: jest.fn(async (): Promise<BatchRefund[]> => []),
+  };
+}
+
+describe('RefundBatcher', () => {
+  it('resolves refunds only once their batch is paid', async () => {
+    const provider = batchProvider();
+    const batcher = new RefundBatcher({ provider, flushInterval: 0 });
+    const settled = jest.fn();
+
+    batcher.issueRefund({ senderAddress: '0xA' }, 10).then(settled);
+    batcher.issueRefund({ senderAddress: '0xA' }, 5).then(settled);
+    batcher.issueRefund({ senderAddress: '0xB' }, 7).then(settled);
+    await sleep(10);
+
+    expect(settled).not.toHaveBeenCalled();
+    expect(batcher.getOwed()).toEqual([
+      expect.objectContaining({ recipient: '0xA', amount: 15, refunds: 2 }),
+      expect.objectContaining({ recipient: '0xB', amount: 7, refunds: 1 }),
+    ]);
+
+    await batcher.flush();
+    await sleep(0);
+
+    expect(settled).toHaveBeenCalledTimes(3);
+    expect(batcher.getOwed()).toEqual([]);
+    // Each refund is passed with its own proof, to be converted at its own rate
+    expect(provider.issueBatchRefund.mock.calls[0][0]).toHaveLength(3);
+  });
+
+  it('rejects refunds whose payout fails and keeps nothing owed', async () => {
+    const provider = batchProvider();
+    provider.issueBatchRefund.mockRejectedValue(new Error('RPC unavailable'));
+    const batcher = new RefundBatcher({ provider, flushInterval: 0 });
+    const flushError = jest.fn();
+    batcher.on('flush_error', flushError);
+
+    const refund = batcher.issueRefund({ senderAddress: '0xA' }, 10);
+    await batcher.flush();
+
+    await expect(refund).rejects.toThrow('RPC unavailable');
+    expect(batcher.getOwedBalance('0xA')).toBe(0);
+    expect(flushError).toHaveBeenCalledWith(expect.objectContaining({ refunds: [{ proof: { senderAddress: '0xA' }, amount: 10 }] }));
+  });
+
+  it('rejects only the refunds a batch could not pay', async () => {
+    const provider = batchProvider();
+    provider.issueBatchRefund.mockImplementation(async (refunds: BatchRefund[]) => refunds.slice(1));
+    const batcher = new RefundBatcher({ provider, flushInterval: 0 });
+
+    const paid = batcher.issueRefund({ senderAddress: '0xA' }, 10);
+    const unpaid = batcher.issueRefund({ senderAddress: '0xB' }, 7);
+    await batcher.flush();
+
+    await expect(paid).resolves.toBeUndefined();
+    await expect(unpaid).rejects.toThrow('not paid');
+  });
+
+  it('pays a recipient out as soon as the threshold is reached', async () => {
+    const provider = batchProvider();
+    const batcher = new RefundBatcher({ provider, flushInterval: 0, threshold: 20 });
+
+    const first = batcher.issueRefund({ senderAddress: '0xA' }, 15);
+    await sleep(10);
+    expect(provider.issueBatchRefund).not.toHaveBeenCalled();
+
+    await batcher.issueRefund({ senderAddress: '0xA' }, 5);
+    await expect(first).resolves.toBeUndefined();
+    expect(provider.issueBatchRefund).toHaveBeenCalledTimes(1);
+  });
+
+  describe('with WS402', () => {
+    let server: TestServer;
+
+    afterEach(() => server.close());
+
+    it('ends the session without waiting for the payout, settling the refund job after it', async () => {
+      // No flush interval and no threshold: nothing is paid until flush() is called
+      const batcher = new RefundBatcher({ provider: new MockPaymentProvider(), flushInterval: 0, recipientOf: () => 'alice' });
+      server = await startServer({ pricePerSecond: 1 }, batcher);
+
+      const { client } = await openSession(server, 100);
+      const ended = new Promise(resolve => server.ws402.once('session_end', resolve));
+      const startedAt = Date.now();
+      client.close();
+      await ended;
+
+      expect(Date.now() - startedAt).toBeLessThan(1000);
+      expect(await server.ws402.listRefunds()).toEqual([expect.objectContaining({ status: 'pending' })]);
+
+      const refunded = new Promise(resolve => server.ws402.once('refund', resolve));
+      await batcher.flush();
+      await refunded;
+
+      expect(await server.ws402.listRefunds()).toEqual([expect.objectContaining({ status: 'settled' })]);
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import { ManualRefundRequiredError } from '../src/errors';
+import { closeSession, openSession, startServer, TestServer } from './helpers';
+
+describe('refund queue', () => {
+  let server: TestServer;
+  let issueRefund: jest.SpyInstance;
+
+  afterEach(() => server.close());
+
+  /**
+   * Run a session that leaves 100 unused, with refunds failing as mocked
+   */
+  async function settleSession(mockRefund: (spy: jest.SpyInstance) => void, event: string): Promise<any> {
+    server = await startServer({
+      pricePerSecond: 1,
+      refundRetry: { maxAttempts: 3, baseDelay: 10, maxDelay: 50, pollInterval: 20 },
+    });
+    issueRefund = jest.spyOn(server.provider, 'issueRefund');
+    mockRefund(issueRefund);
+
+    const emitted = new Promise<any>(resolve => server.ws402.once(event, resolve));
+    const { client } = await openSession(server, 100);
+    await closeSession(server, client);
+    return emitted;
+  }
+
+  it('retries a failed refund until it is paid', async () => {
+    const { job } = await settleSession(spy => spy.mockRejectedValueOnce(new Error('RPC unavailable')), 'refund_settled');
+
+    expect(job).toMatchObject({ status: 'settled', attempts: 2 });
+    expect(job.lastError).toBeUndefined();
+    expect(issueRefund).toHaveBeenCalledTimes(2);
+  });
+
+  it('dead-letters a refund after maxAttempts failures', async () => {
+    const { job } = await settleSession(spy => spy.mockRejectedValue(new Error('RPC unavailable')), 'refund_dead');
+
+    expect(job).toMatchObject({ status: 'dead', attempts: 3, lastError: 'RPC unavailable' });
+    expect(issueRefund).toHaveBeenCalledTimes(3);
+    expect(await server.ws402.listRefunds('dead')).toHaveLength(1);
+  });
+
+  it('dead-letters a refund the provider cannot pay without retrying it', async () => {
+    const manual = new ManualRefundRequiredError('Automatic refunds disabled - manual refund required');
+    const { job, error } = await settleSession(spy => spy.mockRejectedValue(manual), 'refund_dead');
+
+    expect(error).toBe(manual);
+    expect(job).toMatchObject({ status: 'dead', attempts: 1 });
+    expect(issueRefund).toHaveBeenCalledTimes(1);
+  });
+
+  it('pays a dead refund on retryRefund', async () => {
+    const { job } = await settleSession(spy => spy.mockRejectedValue(new Error('RPC unavailable')), 'refund_dead');
+    issueRefund.mockResolvedValue(undefined);
+
+    expect(await server.ws402.retryRefund(job.id)).toMatchObject({ status: 'settled', attempts: 4 });
+    await expect(server.ws402.retryRefund(job.id)).rejects.toThrow('Refund already settled');
+  });
+
+  it('records a refund paid by hand with markRefundSettled', async () => {
+    const manual = new ManualRefundRequiredError('Automatic refunds disabled - manual refund required');
+    const { job } = await settleSession(spy => spy.mockRejectedValue(manual), 'refund_dead');
+
+    const settled = await server.ws402.markRefundSettled(job.id, 'Paid from the treasury wallet');
+
+    expect(settled).toMatchObject({ status: 'settled', note: 'Paid from the treasury wallet' });
+    expect(await server.ws402.listRefunds('dead')).toHaveLength(0);
+  });
+});
@@ -0,0 +1,54 @@
+import { MockPaymentProvider } from '../src/providers/MockPaymentProvider';
+import { closeSession, mockProof, startServer, TestClient, TestServer } from './helpers';
+
+describe('payment replay protection', () => {
+  let server: TestServer;
+
+  afterEach(() => server.close());
+
+  it('rejects a proof reused on another connection', async () => {
+    server = await startServer({ pricePerSecond: 1 });
+    const proof = mockProof(server.provider, 100);
+
+    const first = new TestClient(server.url);
+    await first.opened();
+    first.send({ type: 'payment_proof', proof });
+    await first.next('session_started');
+
+    const second = new TestClient(server.url, 'bob');
+    await second.opened();
+    second.send({ type: 'payment_proof', proof });
+
+    expect((await second.next('payment_rejected')).reason).toBe('Payment proof has already been used');
+    expect((await second.closed()).code).toBe(1008);
+    expect(server.ws402.getActiveSessions()).toHaveLength(1);
+    await closeSession(server, first);
+  });
+
+  it('rejects the session proof reused as a top-up', async () => {
+    server = await startServer({ pricePerSecond: 1 });
+    const proof = mockProof(server.provider, 100);
+
+    const client = new TestClient(server.url);
+    await client.opened();
+    client.send({ type: 'payment_proof', proof });
+    await client.next('session_started');
+
+    client.send({ type: 'topup_request', amount: 100 });
+    await client.next('topup_details');
+    client.send({ type: 'payment_proof', proof });
+
+    expect((await client.next('topup_rejected')).reason).toBe('Payment proof has already been used');
+    expect(server.ws402.getActiveSessions()[0].payments).toHaveLength(1);
+    await closeSession(server, client);
+  });
+
+  it('only accepts each mock payment reference once', async () => {
+    const provider = new MockPaymentProvider();
+    const proof = mockProof(provider, 100);
+
+    expect(await provider.verifyPayment({ amount: 100, reference: 'mock_ref_unknown' })).toMatchObject({ valid: false });
+    expect(await provider.verifyPayment(proof)).toEqual({ valid: true, amount: 100 });
+    expect(await provider.verifyPayment(proof)).toMatchObject({ valid: false });
+  });
+});
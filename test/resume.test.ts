@@ -0,0 +1,64 @@
+import { openSession, startServer, TestClient, TestServer } from './helpers';
+
+describe('session resumption', () => {
+  let server: TestServer;
+
+  afterEach(() => server.close());
+
+  async function resume(token: string): Promise<{ client: TestClient; reply: any }> {
+    const client = new TestClient(server.url);
+    await client.opened();
+    client.send({ type: 'resume_session', resumeToken: token });
+    const reply = await client.next(['session_resumed', 'resume_rejected']);
+    return { client, reply };
+  }
+
+  it('suspends a dropped session and reattaches it with the resume token', async () => {
+    server = await startServer({ resumeWindow: 0.5, pricePerSecond: 1 });
+    const { client, started } = await openSession(server, 100);
+    expect(started.resumeToken).toEqual(expect.any(String));
+
+    const suspended = new Promise(resolve => server.ws402.once('session_suspended', resolve));
+    client.ws.terminate();
+    await suspended;
+    expect(server.ws402.getActiveSessions()).toHaveLength(0);
+
+    const { client: resumed, reply } = await resume(started.resumeToken);
+    expect(reply.type).toBe('session_resumed');
+    expect(reply.sessionId).toBe(started.sessionId);
+    expect(reply.balance).toBeLessThanOrEqual(100);
+    expect(server.ws402.getActiveSessions()).toHaveLength(1);
+
+    // Dropped again and not resumed: settled once the resume window passes
+    const ended = new Promise<any>(resolve => server.ws402.once('session_end', resolve));
+    resumed.ws.terminate();
+    expect((await ended).sessionId).toBe(started.sessionId);
+    expect(await server.ws402.listRefunds()).toHaveLength(1);
+  });
+
+  it('rejects unknown resume tokens', async () => {
+    server = await startServer({ resumeWindow: 5 });
+    const { client, reply } = await resume('not-a-token');
+
+    expect(reply.type).toBe('resume_rejected');
+    expect((await client.closed()).code).toBe(1008);
+  });
+
+  it('settles a session closed for an exhausted balance instead of suspending it', async () => {
+    server = await startServer({ resumeWindow: 60, pricingModel: 'per-message', pricePerMessage: 10 });
+    const { client, started } = await openSession(server, 20);
+
+    const suspended = jest.fn();
+    server.ws402.on('session_suspended', suspended);
+    const ended = new Promise<any>(resolve => server.ws402.once('session_end', resolve));
+
+    client.send('one');
+    client.send('two');
+    await client.next('balance_exhausted');
+    const session = await ended;
+
+    expect(session.status).toBe('ended');
+    expect(suspended).not.toHaveBeenCalled();
+    expect((await resume(started.resumeToken)).reply.type).toBe('resume_rejected');
+  });
+});
@@ -0,0 +1,72 @@
+import { MemorySessionStore } from '../src/stores/MemorySessionStore';
+import { PaymentChannelProvider, PaymentVerification, WS402Session } from '../src/types';
+import { closeSession, openSession, startServer, TestClient, TestServer } from './helpers';
+
+describe('session store', () => {
+  let server: TestServer;
+
+  afterEach(() => server.close());
+
+  it('checkpoints active sessions and removes them once settled', async () => {
+    const sessionStore = new MemorySessionStore();
+    server = await startServer({ sessionStore });
+    const { client, started } = await openSession(server, 100);
+
+    const [checkpoint] = await sessionStore.list();
+    expect(checkpoint.sessionId).toBe(started.sessionId);
+
+    await closeSession(server, client);
+    expect(await sessionStore.list()).toEqual([]);
+  });
+
+  it('refunds orphaned sessions left by a previous process', async () => {
+    const sessionStore = new MemorySessionStore();
+    server = await startServer({ sessionStore });
+
+    const proof = { amount: 100, reference: 'mock_ref_orphan' };
+    await sessionStore.save({
+      sessionId: 'ws402_orphan',
+      userId: 'alice',
+      status: 'active',
+      paidAmount: 100,
+      consumedAmount: 40,
+      paymentProvider: 'default',
+      paymentProof: proof,
+      payments: [{ proof, amount: 100, timestamp: Date.now() }],
+    } as WS402Session);
+
+    const refunded = new Promise(resolve => server.ws402.once('refund', resolve));
+    const recovered = await server.ws402.recoverSessions();
+    await refunded;
+
+    expect(recovered.map(session => session.sessionId)).toEqual(['ws402_orphan']);
+    expect(await sessionStore.list()).toEqual([]);
+    expect(await server.ws402.listRefunds()).toEqual([
+      expect.objectContaining({ id: 'ws402_orphan:0', amount: 60, reason: 'session_recovered', status: 'settled' }),
+    ]);
+  });
+
+  it('does not checkpoint a session again when a voucher arrives after it ended', async () => {
+    let finishVerification!: (verification: PaymentVerification) => void;
+    const channelProvider: PaymentChannelProvider = {
+      openChannel: async () => ({ valid: true, channel: { channelId: 'channel-1', payer: 'payer', capacity: 1000 } }),
+      verifyVoucher: () => new Promise(resolve => { finishVerification = resolve; }),
+      redeemVoucher: async () => {},
+    };
+    const sessionStore = new MemorySessionStore();
+    server = await startServer({ sessionStore, channelProvider });
+
+    const client = new TestClient(server.url);
+    await client.opened();
+    client.send({ type: 'channel_open', channel: {} });
+    await client.next('session_started');
+
+    client.send({ type: 'voucher', voucher: { amount: 10 } });
+    await new Promise(resolve => setTimeout(resolve, 50));
+    await closeSession(server, client);
+
+    finishVerification({ valid: true, amount: 10 });
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(await sessionStore.list()).toEqual([]);
+  });
+});
@@ -0,0 +1,5 @@
+// Providers and stores log every step - keep test output readable
+// (re-applied per test, since tests that restore their mocks restore this one too)
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
@@ -0,0 +1,287 @@
+import { AccountInfo, Keypair, PublicKey, SystemProgram, Transaction } from '@solana/web3.js';
+import {
+  ACCOUNT_SIZE,
+  AccountLayout,
+  AccountState,
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  decodeTransferCheckedInstruction,
+  getAssociatedTokenAddressSync,
+  MINT_SIZE,
+  MintLayout,
+  TOKEN_PROGRAM_ID,
+} from '@solana/spl-token';
+import { SolanaPaymentProvider } from '../src/providers/SolanaPaymentProvider';
+
+describe('SolanaPaymentProvider', () => {
+  const merchant = Keypair.generate();
+  let provider: SolanaPaymentProvider;
+  let connection: any;
+
+  beforeEach(() => {
+    provider = new SolanaPaymentProvider({
+      rpcEndpoint: 'http://127.0.0.1:8899',
+      merchantWallet: merchant.publicKey.toBase58(),
+      merchantPrivateKey: Array.from(merchant.secretKey),
+      autoRefund: true,
+    });
+    connection = (provider as any).connection;
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe('refund confirmation', () => {
+    let blockHeight: number;
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      blockHeight = 90;
+      jest.spyOn(connection, 'getLatestBlockhash')
+        .mockResolvedValue({ blockhash: Keypair.generate().publicKey.toBase58(), lastValidBlockHeight: 100 });
+      jest.spyOn(connection, 'sendRawTransaction').mockResolvedValue('refund-signature');
+      jest.spyOn(connection, 'getBlockHeight').mockImplementation(async () => blockHeight);
+    });
+
+    function sendRefund(): Promise<string> {
+      const transaction = new Transaction().add(SystemProgram.transfer({
+        fromPubkey: merchant.publicKey,
+        toPubkey: Keypair.generate().publicKey,
+        lamports: 1000,
+      }));
+      return (provider as any).sendRefundTransaction(transaction, {});
+    }
+
+    it('keeps polling past two minutes while the blockhash is still valid', async () => {
+      const status = jest.spyOn(connection, 'getSignatureStatus').mockResolvedValue({ value: null });
+      const refund = sendRefund();
+
+      await jest.advanceTimersByTimeAsync(200000);
+      status.mockResolvedValue({ value: { err: null, confirmationStatus: 'confirmed' } });
+      await jest.advanceTimersByTimeAsync(2000);
+
+      await expect(refund).resolves.toBe('refund-signature');
+    });
+
+    it('fails once the blockhash has expired and the transaction is unknown', async () => {
+      const status = jest.spyOn(connection, 'getSignatureStatus').mockResolvedValue({ value: null });
+      const refund = sendRefund();
+      const failed = expect(refund).rejects.toThrow('Refund transaction expired before confirmation');
+
+      await jest.advanceTimersByTimeAsync(4000);
+      blockHeight = 101;
+      await jest.advanceTimersByTimeAsync(2000);
+
+      await failed;
+      expect(status).toHaveBeenLastCalledWith('refund-signature', { searchTransactionHistory: true });
+    });
+
+    it('looks the transaction up in history before reporting it expired', async () => {
+      blockHeight = 101;
+      jest.spyOn(connection, 'getSignatureStatus')
+        .mockResolvedValueOnce({ value: null })
+        .mockResolvedValueOnce({ value: { err: null, confirmationStatus: 'finalized' } });
+
+      await expect(sendRefund()).resolves.toBe('refund-signature');
+    });
+  });
+
+  describe('SPL tokens', () => {
+    const mint = Keypair.generate().publicKey;
+    const merchantTokenAccount = getAssociatedTokenAddressSync(mint, merchant.publicKey);
+    let merchantTokens: bigint;
+
+    beforeEach(() => {
+      provider = new SolanaPaymentProvider({
+        rpcEndpoint: 'http://127.0.0.1:8899',
+        merchantWallet: merchant.publicKey.toBase58(),
+        merchantPrivateKey: Array.from(merchant.secretKey),
+        autoRefund: true,
+        conversionRate: 1e-6,
+        splToken: mint.toBase58(),
+        splTokenDecimals: 6,
+      });
+      connection = (provider as any).connection;
+      merchantTokens = 10000000n;
+
+      jest.spyOn(connection, 'getAccountInfo').mockImplementation(async (address: any) => {
+        if (address.equals(mint)) return mintAccount(6);
+        if (address.equals(merchantTokenAccount)) return tokenAccount(merchant.publicKey, merchantTokens);
+        return null;
+      });
+    });
+
+    function mintAccount(decimals: number): AccountInfo<Buffer> {
+      const data = Buffer.alloc(MINT_SIZE);
+      MintLayout.encode({
+        mintAuthorityOption: 0,
+        mintAuthority: PublicKey.default,
+        supply: 10n ** 12n,
+        decimals,
+        isInitialized: true,
+        freezeAuthorityOption: 0,
+        freezeAuthority: PublicKey.default,
+      }, data);
+      return { data, owner: TOKEN_PROGRAM_ID, executable: false, lamports: 1461600 };
+    }
+
+    function tokenAccount(owner: PublicKey, amount: bigint): AccountInfo<Buffer> {
+      const data = Buffer.alloc(ACCOUNT_SIZE);
+      AccountLayout.encode({
+        mint,
+        owner,
+        amount,
+        delegateOption: 0,
+        delegate: PublicKey.default,
+        state: AccountState.Initialized,
+        isNativeOption: 0,
+        isNative: 0n,
+        delegatedAmount: 0n,
+        closeAuthorityOption: 0,
+        closeAuthority: PublicKey.default,
+      }, data);
+      return { data, owner: TOKEN_PROGRAM_ID, executable: false, lamports: 2039280 };
+    }
+
+    describe('refunds', () => {
+      beforeEach(() => {
+        // The recipient has no token account yet
+        jest.spyOn(connection, 'getMultipleAccountsInfo').mockResolvedValue([null]);
+        jest.spyOn(connection, 'getMinimumBalanceForRentExemption').mockResolvedValue(2039280);
+        jest.spyOn(connection, 'getBalance').mockResolvedValue(1000000000);
+      });
+
+      it('refunds in the token with transferChecked, creating the recipient token account', async () => {
+        const send = jest.spyOn(provider as any, 'sendRefundTransaction').mockResolvedValue('refund-signature');
+        const recipient = Keypair.generate().publicKey;
+
+        await provider.issueRefund({ senderWallet: recipient.toBase58(), conversionRate: 1e-6 }, 2.5);
+
+        const [create, transfer] = (send.mock.calls[0][0] as Transaction).instructions;
+        const recipientTokenAccount = getAssociatedTokenAddressSync(mint, recipient, true);
+
+        expect(create.programId.equals(ASSOCIATED_TOKEN_PROGRAM_ID)).toBe(true);
+        expect(create.keys[1].pubkey.equals(recipientTokenAccount)).toBe(true);
+
+        const { keys, data } = decodeTransferCheckedInstruction(transfer);
+        expect(keys.source.pubkey.equals(merchantTokenAccount)).toBe(true);
+        expect(keys.mint.pubkey.equals(mint)).toBe(true);
+        expect(keys.destination.pubkey.equals(recipientTokenAccount)).toBe(true);
+        expect(data).toMatchObject({ amount: 2500000n, decimals: 6 });
+      });
+
+      it('fails the refund when the merchant holds too few tokens', async () => {
+        const send = jest.spyOn(provider as any, 'sendRefundTransaction');
+        merchantTokens = 1000000n;
+
+        await expect(provider.issueRefund({ senderWallet: Keypair.generate().publicKey.toBase58(), conversionRate: 1e-6 }, 2.5))
+          .rejects.toThrow('Insufficient merchant token balance');
+        expect(send).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('payments', () => {
+      const payer = Keypair.generate().publicKey;
+
+      /**
+       * Confirmed transaction with one parsed token instruction, naming the payment's reference account
+       */
+      function tokenPayment(reference: string, instruction: any, postTokenBalances: any[] = []): any {
+        return {
+          meta: { err: null, postTokenBalances },
+          transaction: {
+            message: {
+              accountKeys: [payer, merchantTokenAccount, new PublicKey(reference)].map(pubkey => ({ pubkey })),
+              instructions: [instruction],
+            },
+          },
+        };
+      }
+
+      function transferChecked(amount: string, overrides: { mint?: string; decimals?: number } = {}): any {
+        return {
+          program: 'spl-token',
+          parsed: {
+            type: 'transferChecked',
+            info: {
+              source: getAssociatedTokenAddressSync(mint, payer).toBase58(),
+              destination: merchantTokenAccount.toBase58(),
+              mint: overrides.mint ?? mint.toBase58(),
+              tokenAmount: { amount, decimals: overrides.decimals ?? 6 },
+            },
+          },
+        };
+      }
+
+      function transfer(amount: string): any {
+        return {
+          program: 'spl-token',
+          parsed: {
+            type: 'transfer',
+            info: { destination: merchantTokenAccount.toBase58(), amount },
+          },
+        };
+      }
+
+      async function verify(tx: (reference: string) => any, amount = 5): Promise<any> {
+        const details = provider.generatePaymentDetails(amount);
+        jest.spyOn(connection, 'getParsedTransaction').mockResolvedValue(tx(details.reference));
+        return provider.verifyPayment({ signature: 'payment-signature', reference: details.reference });
+      }
+
+      it('quotes Solana Pay amounts in whole tokens', () => {
+        const details = provider.generatePaymentDetails(5);
+
+        expect(details).toMatchObject({ currency: 'SPL', amountToken: '5', tokenDecimals: 6 });
+        expect(details.solanaPayURL).toContain('amount=5');
+        expect(details.solanaPayURL).toContain(`spl-token=${mint.toBase58()}`);
+      });
+
+      it('accepts a transferChecked of the mint into the merchant token account', async () => {
+        expect(await verify(reference => tokenPayment(reference, transferChecked('5000000'))))
+          .toEqual({ valid: true, amount: 5 });
+      });
+
+      it('rejects a transfer of another mint, or with other decimals', async () => {
+        const otherMint = Keypair.generate().publicKey.toBase58();
+
+        expect(await verify(reference => tokenPayment(reference, transferChecked('5000000', { mint: otherMint }))))
+          .toMatchObject({ valid: false, reason: 'Token transfer is for the wrong mint' });
+        expect(await verify(reference => tokenPayment(reference, transferChecked('5000000', { decimals: 9 }))))
+          .toMatchObject({ valid: false, reason: 'Token transfer decimals do not match mint' });
+      });
+
+      it('checks the mint of an unchecked transfer from the destination balance', async () => {
+        const balance = (tokenMint: string) => [{ accountIndex: 1, mint: tokenMint, uiTokenAmount: {} }];
+
+        expect(await verify(reference => tokenPayment(reference, transfer('5000000'), balance(mint.toBase58()))))
+          .toEqual({ valid: true, amount: 5 });
+        expect(await verify(reference => tokenPayment(reference, transfer('5000000'), balance(Keypair.generate().publicKey.toBase58()))))
+          .toMatchObject({ valid: false, reason: 'Token transfer is for the wrong mint' });
+      });
+
+      it('rejects an underpaid transfer', async () => {
+        expect(await verify(reference => tokenPayment(reference, transferChecked('4000000'))))
+          .toMatchObject({ valid: false, reason: 'Amount mismatch. Expected: 5000000, Received: 4000000' });
+      });
+
+      it('rejects a transfer without the payment reference', async () => {
+        const unrelated = Keypair.generate().publicKey.toBase58();
+
+        expect(await verify(() => tokenPayment(unrelated, transferChecked('5000000'))))
+          .toMatchObject({ valid: false, reason: 'Payment reference not found in transaction' });
+      });
+
+      it('does not accept SOL transfers for token payments', async () => {
+        const sol = {
+          program: 'system',
+          parsed: { type: 'transfer', info: { destination: merchant.publicKey.toBase58(), lamports: 5000000 } },
+        };
+
+        expect(await verify(reference => tokenPayment(reference, sol)))
+          .toMatchObject({ valid: false, reason: 'No token transfer to merchant token account found' });
+      });
+    });
+  });
+});
@@ -0,0 +1,54 @@
+import { closeSession, mockProof, openSession, startServer, TestServer } from './helpers';
+
+describe('top-ups', () => {
+  let server: TestServer;
+
+  afterEach(() => server.close());
+
+  it('credits a top-up paid on the open socket', async () => {
+    server = await startServer({ pricePerSecond: 1 });
+    const { client } = await openSession(server, 100);
+
+    client.send({ type: 'topup_request', amount: 50 });
+    const details = await client.next('topup_details');
+    expect(details.amount).toBe(50);
+
+    client.send({ type: 'payment_proof', proof: { amount: 50, reference: details.paymentDetails.reference } });
+    const confirmed = await client.next('topup_confirmed');
+
+    expect(confirmed.amount).toBe(50);
+    expect(confirmed.balance).toBeGreaterThan(100);
+    expect(server.ws402.getActiveSessions()[0].payments).toHaveLength(2);
+    await closeSession(server, client);
+  });
+
+  it('rejects invalid top-up amounts', async () => {
+    server = await startServer({ pricePerSecond: 1 });
+    const { client } = await openSession(server, 100);
+
+    client.send({ type: 'topup_request', amount: -5 });
+    expect((await client.next('topup_rejected')).reason).toMatch(/positive/);
+    await closeSession(server, client);
+  });
+
+  it('refunds each payment against its own proof, oldest consumed first', async () => {
+    server = await startServer({ pricingModel: 'per-message', pricePerMessage: 30 });
+    const { client } = await openSession(server, 100);
+
+    const proof = mockProof(server.provider, 50);
+    client.send({ type: 'payment_proof', proof });
+    await client.next('topup_confirmed');
+
+    for (let i = 0; i < 4; i++) client.send(`message ${i}`);
+    await client.next('usage_update', message => message.messageCount === 4);
+
+    const session = await closeSession(server, client);
+    const refunds = await server.ws402.listRefunds();
+
+    // 120 consumed: the first payment in full, 20 of the top-up
+    expect(session.consumedAmount).toBe(120);
+    expect(refunds).toHaveLength(1);
+    expect(refunds[0]).toMatchObject({ id: `${session.sessionId}:1`, amount: 30, status: 'settled' });
+    expect(refunds[0].proof.reference).toBe(proof.reference);
+  });
+});